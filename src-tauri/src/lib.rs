@@ -60,9 +60,19 @@ fn file_exists(path: String) -> bool {
 
 #[tauri::command]
 fn save_json_with_dialog(default_file_name: String, content: String) -> Result<Option<String>, String> {
+    save_text_with_dialog(default_file_name, content, "JSON".to_string(), "json".to_string())
+}
+
+#[tauri::command]
+fn save_text_with_dialog(
+    default_file_name: String,
+    content: String,
+    filter_name: String,
+    extension: String,
+) -> Result<Option<String>, String> {
     let selected = rfd::FileDialog::new()
         .set_file_name(&default_file_name)
-        .add_filter("JSON", &["json"])
+        .add_filter(&filter_name, &[extension.as_str()])
         .save_file();
 
     match selected {
@@ -90,6 +100,7 @@ pub fn run() {
             ensure_dir,
             file_exists,
             save_json_with_dialog,
+            save_text_with_dialog,
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
@@ -5,21 +5,26 @@ import { SchemaEditor } from '@/components/schema/SchemaEditor';
 import { HistoryList } from '@/components/profile/HistoryList';
 import { StudioPanel } from '@/components/studio/StudioPanel';
 import { ChatPanel } from '@/components/chat/ChatPanel';
+import { CallInspector } from '@/components/calls/CallInspector';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useSchemaStore } from '@/stores/schemaStore';
 import { useProfileStore } from '@/stores/profileStore';
+import { useCallLogStore } from '@/stores/callLogStore';
 import type { AppView } from '@/types';
 
 function App() {
   const { loadSettings, loaded: settingsLoaded } = useSettingsStore();
   const { loadPresets, loaded: schemasLoaded } = useSchemaStore();
   const { loadProfiles, loaded: profilesLoaded } = useProfileStore();
+  const { loadCalls } = useCallLogStore();
 
   useEffect(() => {
     loadSettings();
     loadPresets();
     loadProfiles();
-  }, [loadSettings, loadPresets, loadProfiles]);
+    // The call log is not needed to render; it fills in when loaded.
+    void loadCalls();
+  }, [loadSettings, loadPresets, loadProfiles, loadCalls]);
 
   const allLoaded = settingsLoaded && schemasLoaded && profilesLoaded;
 
@@ -51,6 +56,9 @@ function App() {
             <div className={view === 'history' ? 'h-full' : 'hidden h-full'}>
               <HistoryList isActive={view === 'history'} />
             </div>
+            <div className={view === 'calls' ? 'h-full' : 'hidden h-full'}>
+              <CallInspector />
+            </div>
             <div className={view === 'settings' ? 'h-full' : 'hidden h-full'}>
               <SettingsPage />
             </div>
@@ -0,0 +1,466 @@
+import { useMemo, useRef, useState } from 'react';
+import { useCallLogStore } from '@/stores/callLogStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { useSchemaStore } from '@/stores/schemaStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useNavigationStore } from '@/stores/navigationStore';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import { createRunController } from '@/stores/consoleStreamStore';
+import { toast } from '@/stores/toastStore';
+import { cn, formatDate, isAbortError } from '@/lib/utils';
+import { resolveGeneratedProfileDisplayName } from '@/lib/profileIdentity';
+import { describeUsage, summarizeUsage } from '@/lib/usage';
+import { appendRevision, evaluateConfidence } from '@/lib/workspace';
+import { mergeReplayOutput, replayCall, type ReplayResult } from '@/services/replay';
+import { PROVIDER_CONFIGS, getModelName, isLLMProvider, requiresApiKey } from '@/services/types';
+import type { GeneratedProfile, LLMCallRecord, LLMCallStatus, LLMProvider, SchemaPreset } from '@/types';
+import { Copy, GitMerge, Play, RotateCcw, ScrollText, Search, Square, Trash2, X } from 'lucide-react';
+
+const statusOptions: { value: '' | LLMCallStatus; label: string }[] = [
+  { value: '', label: 'All statuses' },
+  { value: 'complete', label: 'Complete' },
+  { value: 'error', label: 'Error' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const statusVariants: Record<LLMCallStatus, 'default' | 'destructive' | 'secondary'> = {
+  complete: 'default',
+  error: 'destructive',
+  cancelled: 'secondary',
+};
+
+const providerOptions = Object.values(PROVIDER_CONFIGS).map((config) => ({
+  value: config.id,
+  label: config.name,
+}));
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function matchesSearch(call: LLMCallRecord, query: string): boolean {
+  return [call.label, call.model, call.systemPrompt, call.userPrompt, call.output, call.error ?? '']
+    .some((text) => text.toLowerCase().includes(query));
+}
+
+function CallSection({ title, text }: { title: string; text: string }) {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast('Copied', `${title} copied to clipboard.`, 'success');
+  };
+
+  return (
+    <details className="group rounded-md border border-border bg-card" open>
+      <summary className="list-none cursor-pointer px-4 py-2.5 text-sm font-medium flex items-center justify-between gap-2">
+        <span>{title}</span>
+        <span className="flex items-center gap-2">
+          <span className="text-[11px] font-normal text-muted-foreground">{text.length} chars</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title={`Copy ${title.toLowerCase()}`}
+            onClick={(event) => {
+              event.preventDefault();
+              void handleCopy();
+            }}
+          >
+            <Copy className="h-3.5 w-3.5" />
+          </Button>
+        </span>
+      </summary>
+      <pre className="max-h-96 overflow-auto border-t border-border px-4 py-3 text-xs font-mono whitespace-pre-wrap break-words">
+        {text || '(empty)'}
+      </pre>
+    </details>
+  );
+}
+
+interface ReplayEditorProps {
+  call: LLMCallRecord;
+  profile: GeneratedProfile | null;
+  schema: SchemaPreset | null;
+}
+
+function ReplayEditor({ call, profile, schema }: ReplayEditorProps) {
+  const { getProviderTarget } = useSettingsStore();
+  const { updateProfile } = useProfileStore();
+
+  const [provider, setProvider] = useState<LLMProvider>(call.provider);
+  const [model, setModel] = useState(call.model);
+  const [temperature, setTemperature] = useState(String(call.temperature));
+  const [systemPrompt, setSystemPrompt] = useState(call.systemPrompt);
+  const [userPrompt, setUserPrompt] = useState(call.userPrompt);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ReplayResult | null>(null);
+  const [target, setTarget] = useState<{ provider: LLMProvider; model: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const modelOptions = PROVIDER_CONFIGS[provider].models.map((entry) => ({ value: entry.id, label: entry.name }));
+  const edited = systemPrompt !== call.systemPrompt || userPrompt !== call.userPrompt;
+
+  const handleProviderChange = (value: string) => {
+    if (!isLLMProvider(value)) return;
+    setProvider(value);
+    setModel(value === call.provider ? call.model : PROVIDER_CONFIGS[value].defaultModel);
+  };
+
+  const handleReset = () => {
+    setSystemPrompt(call.systemPrompt);
+    setUserPrompt(call.userPrompt);
+  };
+
+  const handleRun = async () => {
+    const parsedTemperature = Number(temperature);
+    const replayTarget = getProviderTarget(
+      provider,
+      model,
+      Number.isFinite(parsedTemperature) ? Math.min(2, Math.max(0, parsedTemperature)) : call.temperature
+    );
+    if (requiresApiKey(provider) && !replayTarget.apiKey) {
+      toast('No API key', `Add your ${PROVIDER_CONFIGS[provider].name} API key in Settings.`, 'error');
+      return;
+    }
+    if (!replayTarget.model) {
+      toast('No model', 'Choose a model to replay this call against.', 'error');
+      return;
+    }
+
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
+    setRunning(true);
+    setResult(null);
+    try {
+      const replayed = await replayCall(call, replayTarget, { systemPrompt, userPrompt }, () => {}, controller.signal);
+      setResult(replayed);
+      setTarget({ provider: replayTarget.provider, model: replayTarget.model });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast('Replay stopped', 'The partial output is in the call log.');
+      } else {
+        toast('Replay failed', error instanceof Error ? error.message : 'Unknown error', 'error');
+      }
+    } finally {
+      release();
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!profile || !result || !target) return;
+    let merged: ReturnType<typeof mergeReplayOutput>;
+    try {
+      merged = mergeReplayOutput(profile, schema, result.raw);
+    } catch {
+      toast('Cannot merge', 'The replay output is not a JSON object.', 'error');
+      return;
+    }
+    if (merged.mergedPaths.length === 0) {
+      toast('Nothing to merge', 'The replay output has no fields from this schema.');
+      return;
+    }
+
+    const next = appendRevision(profile, 'replay', `Replay: ${call.label}`, merged.snapshot, {
+      selectedFields: merged.mergedPaths,
+      confidence: schema ? evaluateConfidence(schema, merged.snapshot, schema.generationOrder?.length ?? 1) : undefined,
+      parentRevisionId: profile.activeRevisionId,
+      usage: result.usage ? { provider: target.provider, model: target.model, ...result.usage } : undefined,
+    });
+    await updateProfile(next);
+    toast(
+      'Replay merged',
+      `Saved ${merged.mergedPaths.length} field${merged.mergedPaths.length !== 1 ? 's' : ''} as a new revision.`,
+      'success'
+    );
+  };
+
+  return (
+    <div className="rounded-md border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium">Replay</h4>
+        <Button variant="ghost" size="sm" className="h-7 text-[11px]" onClick={handleReset} disabled={!edited || running}>
+          <RotateCcw className="h-3.5 w-3.5" />
+          Reset prompts
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Select
+          value={provider}
+          onValueChange={handleProviderChange}
+          options={providerOptions}
+          className="w-40 shrink-0"
+          disabled={running}
+        />
+        {provider === 'local' ? (
+          <Input
+            placeholder="Endpoint model"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            className="flex-1"
+            disabled={running}
+          />
+        ) : (
+          <Select
+            value={modelOptions.some((option) => option.value === model) ? model : ''}
+            onValueChange={setModel}
+            options={modelOptions}
+            placeholder="Choose a model"
+            className="flex-1"
+            disabled={running}
+          />
+        )}
+        <Input
+          type="number"
+          min={0}
+          max={2}
+          step={0.05}
+          value={temperature}
+          onChange={(e) => setTemperature(e.target.value)}
+          className="w-24 shrink-0"
+          disabled={running}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <label className="text-xs font-medium text-muted-foreground">System prompt</label>
+        <Textarea
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          className="min-h-[160px] text-xs font-mono"
+          disabled={running}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <label className="text-xs font-medium text-muted-foreground">User prompt</label>
+        <Textarea
+          value={userPrompt}
+          onChange={(e) => setUserPrompt(e.target.value)}
+          className="min-h-[120px] text-xs font-mono"
+          disabled={running}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        {running ? (
+          <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+            <Square className="h-3.5 w-3.5" />
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => void handleRun()}>
+            <Play className="h-3.5 w-3.5" />
+            Run replay
+          </Button>
+        )}
+        {result && profile && (
+          <Button variant="outline" size="sm" onClick={() => void handleMerge()}>
+            <GitMerge className="h-3.5 w-3.5" />
+            Merge into profile
+          </Button>
+        )}
+        {result && !profile && (
+          <span className="text-xs text-muted-foreground">This call is not linked to a profile, so its output cannot be merged.</span>
+        )}
+      </div>
+      {result && <CallSection title="Replay output" text={result.raw} />}
+    </div>
+  );
+}
+
+export function CallInspector() {
+  const { calls, deleteCall, clearCalls } = useCallLogStore();
+  const { profiles, setActiveProfile } = useProfileStore();
+  const { presets } = useSchemaStore();
+  const { settings } = useSettingsStore();
+  const { setActiveView } = useNavigationStore();
+
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'' | LLMCallStatus>('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState(false);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return calls.filter((call) => {
+      if (statusFilter && call.status !== statusFilter) return false;
+      return !query || matchesSearch(call, query);
+    });
+  }, [calls, search, statusFilter]);
+
+  const selected = calls.find((call) => call.id === selectedId) ?? null;
+  const linkedProfile = selected?.profileId ? profiles.find((profile) => profile.id === selected.profileId) ?? null : null;
+  const linkedSchema = selected?.schemaId ? presets.find((preset) => preset.id === selected.schemaId) ?? null : null;
+
+  const handleOpenProfile = () => {
+    if (!linkedProfile) return;
+    setActiveProfile(linkedProfile.id);
+    setActiveView('history');
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteCall(id);
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleClear = async () => {
+    await clearCalls();
+    setSelectedId(null);
+    toast('Call log cleared', 'All logged calls were removed.', 'default');
+  };
+
+  return (
+    <div className="flex h-full">
+      <div className="w-80 shrink-0 border-r border-border flex flex-col">
+        <div className="p-4 border-b border-border space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold">Calls</h2>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">
+                {filtered.length} call{filtered.length !== 1 ? 's' : ''}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-[11px]"
+                onClick={() => void handleClear()}
+                disabled={calls.length === 0}
+              >
+                Clear
+              </Button>
+            </div>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search prompts and output..."
+              className="h-8 text-xs pl-8 pr-8"
+            />
+            {search && (
+              <button
+                onClick={() => setSearch('')}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground cursor-pointer"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as '' | LLMCallStatus)}
+            options={statusOptions}
+          />
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {filtered.map((call) => (
+            <button
+              key={call.id}
+              onClick={() => {
+                setSelectedId(call.id);
+                setReplaying(false);
+              }}
+              className={cn(
+                'w-full rounded-md border px-3 py-2 text-left transition-colors cursor-pointer',
+                selectedId === call.id ? 'border-primary bg-accent' : 'border-border hover:bg-accent/50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-xs font-medium">{call.label}</span>
+                <Badge variant={statusVariants[call.status]} className="text-[10px]">{call.status}</Badge>
+              </div>
+              <div className="mt-1 flex items-center gap-2 text-[11px] text-muted-foreground">
+                <span className="truncate">{getModelName(call.provider, call.model)}</span>
+                <span>{formatDuration(call.durationMs)}</span>
+                <span className="ml-auto shrink-0">{formatDate(call.startedAt)}</span>
+              </div>
+            </button>
+          ))}
+          {filtered.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <ScrollText className="h-10 w-10 text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">
+                {calls.length === 0 ? 'No LLM calls logged yet.' : 'No calls match your filters.'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {selected ? (
+          <div className="max-w-3xl mx-auto p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-bold">{selected.label}</h3>
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                  <Badge variant="secondary" className="text-[10px]">
+                    {PROVIDER_CONFIGS[selected.provider]?.name ?? selected.provider}
+                  </Badge>
+                  <span>{getModelName(selected.provider, selected.model)}</span>
+                  <span>T: {selected.temperature.toFixed(2)}</span>
+                  <span>{formatDate(selected.startedAt)}</span>
+                  <span>{formatDuration(selected.durationMs)}</span>
+                  {selected.usage && (
+                    <span className="font-mono">
+                      {describeUsage(summarizeUsage([{ provider: selected.provider, model: selected.model, ...selected.usage }], settings.prices))}
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                  {linkedSchema && <Badge variant="outline" className="text-[10px]">Schema: {linkedSchema.name}</Badge>}
+                  {selected.schemaId && !linkedSchema && (
+                    <Badge variant="outline" className="text-[10px]">Schema {selected.schemaId.slice(0, 8)} (deleted)</Badge>
+                  )}
+                  {linkedProfile && (
+                    <Button variant="outline" size="sm" className="h-7 text-[11px]" onClick={handleOpenProfile}>
+                      Open {resolveGeneratedProfileDisplayName(linkedProfile, { schema: linkedSchema, fallback: linkedProfile.schemaName })}
+                    </Button>
+                  )}
+                  {selected.profileId && !linkedProfile && (
+                    <Badge variant="outline" className="text-[10px]">Profile {selected.profileId.slice(0, 8)} (deleted)</Badge>
+                  )}
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => void handleDelete(selected.id)} title="Delete call">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {selected.error && (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                {selected.error}
+              </div>
+            )}
+
+            <CallSection title="System prompt" text={selected.systemPrompt} />
+            <CallSection title="User prompt" text={selected.userPrompt} />
+            <CallSection title={selected.status === 'complete' ? 'Output' : 'Partial output'} text={selected.output} />
+
+            {replaying ? (
+              <ReplayEditor key={selected.id} call={selected} profile={linkedProfile} schema={linkedSchema} />
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => setReplaying(true)}>
+                <Play className="h-3.5 w-3.5" />
+                Replay with edits
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center">
+              <ScrollText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-1">No call selected</h3>
+              <p className="text-sm text-muted-foreground">
+                Select a call to inspect its prompts and raw output.
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,15 +3,17 @@ import { useProfileStore } from '@/stores/profileStore';
 import { useSchemaStore } from '@/stores/schemaStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useLlmBarStore } from '@/stores/llmBarStore';
+import { createRunController } from '@/stores/consoleStreamStore';
 import { Select } from '@/components/ui/Select';
 import { Textarea } from '@/components/ui/Textarea';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { toast } from '@/stores/toastStore';
-import { cn } from '@/lib/utils';
+import { cn, isAbortError } from '@/lib/utils';
 import { resolveGeneratedProfileDisplayName } from '@/lib/profileIdentity';
 import { generateCharacterReply, generateSceneFromSchema, type ChatTurn } from '@/services/chat';
+import { PROVIDER_CONFIGS } from '@/services/types';
 import { AlertCircle, Loader2, MessagesSquare, Sparkles } from 'lucide-react';
 
 interface ChatPanelProps {
@@ -21,7 +23,8 @@ interface ChatPanelProps {
 export function ChatPanel({ isActive = true }: ChatPanelProps) {
   const { profiles, activeProfile } = useProfileStore();
   const { presets } = useSchemaStore();
-  const { hasApiKey, getApiKey } = useSettingsStore();
+  const { settings, hasApiKey, getLLMTarget } = useSettingsStore();
+  const providerName = PROVIDER_CONFIGS[settings.provider].name;
   const { setConfig, resetConfig } = useLlmBarStore();
 
   const [selectedProfileId, setSelectedProfileId] = useState('');
@@ -32,6 +35,7 @@ export function ChatPanel({ isActive = true }: ChatPanelProps) {
 
   const lastSelectedProfile = useRef<string>('');
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const profileById = useMemo(() => {
     return new Map(profiles.map((profile) => [profile.id, profile]));
@@ -117,28 +121,37 @@ export function ChatPanel({ isActive = true }: ChatPanelProps) {
       return;
     }
     if (!hasApiKey()) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerName} API key in Settings.`, 'error');
       return;
     }
 
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
     setIsGeneratingScene(true);
     try {
       const nextScene = await generateSceneFromSchema({
-        apiKey: getApiKey(),
+        target: getLLMTarget('sceneGeneration'),
         profile: selectedProfile,
         schema: selectedSchema,
         onToken: () => {},
+        signal: controller.signal,
       });
       setScene(nextScene);
       setMessages([]);
       toast('Context generated', 'A concise conversation context is ready.', 'success');
     } catch (error) {
+      if (isAbortError(error)) {
+        toast('Context generation stopped', 'The request was cancelled.');
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Failed to generate context.';
       toast('Context generation failed', message, 'error');
     } finally {
+      release();
+      abortRef.current = null;
       setIsGeneratingScene(false);
     }
-  }, [selectedProfile, selectedSchema, hasApiKey, getApiKey]);
+  }, [selectedProfile, selectedSchema, hasApiKey, providerName, getLLMTarget]);
 
   const handleSendMessage = useCallback(async (text: string) => {
     const prompt = text.trim();
@@ -148,34 +161,47 @@ export function ChatPanel({ isActive = true }: ChatPanelProps) {
       return;
     }
     if (!hasApiKey()) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerName} API key in Settings.`, 'error');
       return;
     }
     if (isSending) return;
 
     const history = [...messages];
     setMessages((prev) => [...prev, { role: 'user', content: prompt }]);
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
     setIsSending(true);
 
     try {
       const reply = await generateCharacterReply({
-        apiKey: getApiKey(),
+        target: getLLMTarget('chatReply'),
         profile: selectedProfile,
         schema: selectedSchema,
         scene,
         history,
         userMessage: prompt,
         onToken: () => {},
+        signal: controller.signal,
       });
 
       setMessages((prev) => [...prev, { role: 'assistant', content: reply }]);
     } catch (error) {
+      if (isAbortError(error)) {
+        toast('Reply stopped', 'The request was cancelled.');
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Failed to send chat message.';
       toast('Chat failed', message, 'error');
     } finally {
+      release();
+      abortRef.current = null;
       setIsSending(false);
     }
-  }, [selectedProfile, selectedSchema, scene, hasApiKey, getApiKey, isSending, messages]);
+  }, [selectedProfile, selectedSchema, scene, hasApiKey, providerName, getLLMTarget, isSending, messages]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   useEffect(() => {
     if (!isActive) return;
@@ -203,7 +229,7 @@ export function ChatPanel({ isActive = true }: ChatPanelProps) {
     if (!hasApiKey()) {
       setConfig({
         chips,
-        placeholder: 'Add your OpenAI key in Settings to chat.',
+        placeholder: `Add your ${providerName} key in Settings to chat.`,
         submitLabel: 'Send',
         disabled: true,
         disabledReason: 'Open Settings and add an API key.',
@@ -234,6 +260,7 @@ export function ChatPanel({ isActive = true }: ChatPanelProps) {
       disabledReason: undefined,
       busy: isSending || isGeneratingScene,
       onSubmit: handleSendMessage,
+      onCancel: handleCancel,
     });
   }, [
     profiles.length,
@@ -242,10 +269,12 @@ export function ChatPanel({ isActive = true }: ChatPanelProps) {
     scene,
     isActive,
     hasApiKey,
+    providerName,
     isSending,
     isGeneratingScene,
     setConfig,
     handleSendMessage,
+    handleCancel,
   ]);
 
   useEffect(() => {
@@ -331,7 +360,7 @@ export function ChatPanel({ isActive = true }: ChatPanelProps) {
         {!hasApiKey() && (
           <div className="flex items-center gap-2 text-sm text-amber-400 bg-amber-500/10 rounded-md p-3">
             <AlertCircle className="h-4 w-4 shrink-0" />
-            <span>No API key configured for OpenAI. Add one in Settings.</span>
+            <span>No API key configured for {providerName}. Add one in Settings.</span>
           </div>
         )}
 
@@ -3,7 +3,7 @@ import { useSchemaStore } from '@/stores/schemaStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useProfileStore } from '@/stores/profileStore';
 import { generateProfile } from '@/services/provider';
-import { FIXED_MODEL_NAME, FIXED_PROVIDER, FIXED_PROVIDER_NAME, FIXED_TEMPERATURE } from '@/services/types';
+import { PROVIDER_CONFIGS, getModelName } from '@/services/types';
 import { isMultiPass } from '@/lib/promptBuilder';
 import { Button } from '@/components/ui/Button';
 import { Select } from '@/components/ui/Select';
@@ -17,10 +17,11 @@ import { Sparkles, Loader2, AlertCircle, ArrowRight } from 'lucide-react';
 import { ProfileViewer } from '@/components/profile/ProfileViewer';
 import { ProfileRefinePanel } from '@/components/profile/ProfileRefinePanel';
 import { evaluateConfidence } from '@/lib/workspace';
+import { resultUsage } from '@/lib/usage';
 
 export function GeneratorPanel() {
   const { presets } = useSchemaStore();
-  const { hasApiKey, getApiKey } = useSettingsStore();
+  const { settings, hasApiKey, getLLMTarget } = useSettingsStore();
   const {
     isGenerating,
     currentPass,
@@ -37,6 +38,8 @@ export function GeneratorPanel() {
 
   const selectedSchema = presets.find((p) => p.id === selectedSchemaId);
   const providerHasKey = hasApiKey();
+  const providerConfig = PROVIDER_CONFIGS[settings.provider];
+  const generationTarget = getLLMTarget('profileGeneration');
   const multiPass = selectedSchema ? isMultiPass(selectedSchema) : false;
 
   const handleSchemaChange = (id: string) => {
@@ -52,17 +55,17 @@ export function GeneratorPanel() {
       return;
     }
     if (!providerHasKey) {
-      toast('No API key', 'Please add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Please add your ${providerConfig.name} API key in Settings.`, 'error');
       return;
     }
 
-    const apiKey = getApiKey();
+    const target = getLLMTarget('profileGeneration');
     setGenerating(true);
     setLastProfile(null);
 
     try {
       await new Promise<void>((resolve, reject) => {
-        generateProfile(apiKey, selectedSchema, trimmedInput, {
+        generateProfile(target, selectedSchema, trimmedInput, { seeds: {} }, {
           onPassStart: (passIndex, passTotal, fieldKeys) => {
             setPassInfo(passIndex, passTotal, fieldKeys);
           },
@@ -77,12 +80,12 @@ export function GeneratorPanel() {
               id: generateId(),
               schemaId: selectedSchema.id,
               schemaName: selectedSchema.name,
-              provider: FIXED_PROVIDER,
-              model: FIXED_MODEL_NAME,
+              provider: result.provider,
+              model: result.model,
               generatedAt: now,
               seeds: {},
               prompt: promptForHistory,
-              temperature: FIXED_TEMPERATURE,
+              temperature: target.temperature,
               profile: result.profile,
               revisions: [
                 {
@@ -91,7 +94,8 @@ export function GeneratorPanel() {
                   kind: 'generate',
                   prompt: promptForHistory,
                   snapshot: result.profile,
-                  confidence: evaluateConfidence(selectedSchema, result.profile, selectedSchema.generationOrder?.length ?? 1),
+                  confidence: evaluateConfidence(selectedSchema, result.profile, selectedSchema.generationOrder?.length ?? 1, result.repair),
+                  usage: resultUsage(result),
                 },
               ],
               activeRevisionId: revisionId,
@@ -117,7 +121,7 @@ export function GeneratorPanel() {
       setGenerating(false);
       setPassInfo(0, 1, []);
     }
-  }, [selectedSchema, providerHasKey, userInput, getApiKey, setGenerating, setPassInfo, addProfile]);
+  }, [selectedSchema, providerHasKey, providerConfig.name, userInput, getLLMTarget, setGenerating, setPassInfo, addProfile]);
 
   return (
     <div className="h-full overflow-hidden">
@@ -190,13 +194,13 @@ export function GeneratorPanel() {
               </CardHeader>
               <CardContent className="space-y-2">
                 <div className="flex flex-wrap items-center gap-2 text-xs">
-                  <Badge variant="secondary">{FIXED_PROVIDER_NAME}</Badge>
+                  <Badge variant="secondary">{providerConfig.name}</Badge>
                   <ArrowRight className="h-3 w-3 text-muted-foreground" />
-                  <Badge variant="outline">{FIXED_MODEL_NAME}</Badge>
-                  <Badge variant="outline">T: {FIXED_TEMPERATURE.toFixed(2)}</Badge>
+                  <Badge variant="outline">{getModelName(providerConfig.id, generationTarget.model)}</Badge>
+                  <Badge variant="outline">T: {generationTarget.temperature.toFixed(2)}</Badge>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Runtime is fixed for consistency.
+                  Provider is chosen in Settings.
                 </p>
               </CardContent>
             </Card>
@@ -204,7 +208,7 @@ export function GeneratorPanel() {
             {!providerHasKey && (
               <div className="flex items-center gap-2 text-sm text-amber-400 bg-amber-500/10 rounded-md p-3">
                 <AlertCircle className="h-4 w-4 shrink-0" />
-                <span>No API key configured for OpenAI. Add one in Settings.</span>
+                <span>No API key configured for {providerConfig.name}. Add one in Settings.</span>
               </div>
             )}
 
@@ -16,10 +16,11 @@ export function AppShell({ children }: AppShellProps) {
   const { setConfig } = useLlmBarStore();
 
   useEffect(() => {
-    if (activeView === 'settings') {
+    if (activeView === 'settings' || activeView === 'calls') {
+      const label = activeView === 'settings' ? 'Settings' : 'Calls';
       setConfig({
-        chips: [{ id: 'ctx', label: 'Settings' }],
-        placeholder: 'LLM input unavailable in Settings.',
+        chips: [{ id: 'ctx', label }],
+        placeholder: `LLM input unavailable in ${label}.`,
         submitLabel: 'Run',
         disabled: true,
         disabledReason: 'Switch to Create, Profiles, or Schemas.',
@@ -1,9 +1,9 @@
 import { useEffect, useRef } from 'react';
 import { useConsoleStreamStore } from '@/stores/consoleStreamStore';
-import { Terminal, X, Eraser } from 'lucide-react';
+import { Terminal, X, Eraser, Square } from 'lucide-react';
 
 export function ConsolePopup() {
-  const { isOpen, activeRuns, buffer, open, close, clear } = useConsoleStreamStore();
+  const { isOpen, activeRuns, buffer, controllers, open, close, clear, stopAll } = useConsoleStreamStore();
   const preRef = useRef<HTMLPreElement | null>(null);
   const stickToBottomRef = useRef(true);
 
@@ -56,6 +56,16 @@ export function ConsolePopup() {
             </span>
           </div>
           <div className="inline-flex items-center gap-1">
+            {activeRuns > 0 && controllers.length > 0 && (
+              <button
+                onClick={stopAll}
+                className="inline-flex h-7 items-center gap-1 rounded border border-red-500/50 px-2 font-mono text-[11px] text-red-300 hover:bg-red-500/10 cursor-pointer"
+                title="Stop all running requests"
+              >
+                <Square className="h-3 w-3" />
+                STOP
+              </button>
+            )}
             <button
               onClick={clear}
               className="inline-flex h-7 w-7 items-center justify-center rounded border border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/10 disabled:opacity-40 cursor-pointer"
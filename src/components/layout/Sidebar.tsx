@@ -1,6 +1,6 @@
 import { cn } from '@/lib/utils';
 import type { AppView } from '@/types';
-import { Sparkles, Layers, Clock, Settings, MessagesSquare } from 'lucide-react';
+import { Sparkles, Layers, Clock, Settings, MessagesSquare, ScrollText } from 'lucide-react';
 
 interface SidebarProps {
   activeView: AppView;
@@ -12,6 +12,7 @@ const navItems: { view: AppView; label: string; icon: typeof Sparkles }[] = [
   { view: 'chat', label: 'Chat', icon: MessagesSquare },
   { view: 'schemas', label: 'Schemas', icon: Layers },
   { view: 'history', label: 'Profiles', icon: Clock },
+  { view: 'calls', label: 'Calls', icon: ScrollText },
   { view: 'settings', label: 'Settings', icon: Settings },
 ];
 
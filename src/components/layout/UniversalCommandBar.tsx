@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import { useLlmBarStore } from '@/stores/llmBarStore';
-import { Sparkles, Loader2 } from 'lucide-react';
+import { Sparkles, Loader2, Square } from 'lucide-react';
 
 export function UniversalCommandBar() {
   const { prompt, setPrompt, config } = useLlmBarStore();
@@ -71,6 +71,18 @@ export function UniversalCommandBar() {
               }
             }}
           />
+          {busy && config.onCancel && (
+            <button
+              onClick={config.onCancel}
+              className="h-10 rounded-xl border border-destructive/60 px-3 text-sm font-medium text-destructive hover:bg-destructive/10 cursor-pointer"
+              title="Stop the running request"
+            >
+              <span className="inline-flex items-center gap-1.5">
+                <Square className="h-3.5 w-3.5" />
+                Stop
+              </span>
+            </button>
+          )}
           <button
             onClick={() => void handleSubmit()}
             disabled={config.disabled || busy || (!prompt.trim() && !config.allowEmptyPrompt)}
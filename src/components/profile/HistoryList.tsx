@@ -16,6 +16,7 @@ import {
   DialogTitle,
 } from '@/components/ui/Dialog';
 import { resolveGeneratedProfileDisplayName } from '@/lib/profileIdentity';
+import { PROVIDER_CONFIGS } from '@/services/types';
 import { toast } from '@/stores/toastStore';
 import { Clock, Search, X } from 'lucide-react';
 
@@ -27,12 +28,14 @@ export function HistoryList({ isActive = true }: HistoryListProps) {
   const { profiles, activeProfile, setActiveProfile, duplicateProfile, deleteProfile } = useProfileStore();
   const { presets } = useSchemaStore();
   const { hasApiKey, settings, setDeleteWarningSuppressed } = useSettingsStore();
+  const providerName = PROVIDER_CONFIGS[settings.provider].name;
   const { setConfig, resetConfig } = useLlmBarStore();
 
   const [search, setSearch] = useState('');
   const [schemaFilter, setSchemaFilter] = useState('');
   const [externalCommand, setExternalCommand] = useState<{ id: number; text: string } | null>(null);
   const [isProfileBusy, setIsProfileBusy] = useState(false);
+  const [cancelRequestId, setCancelRequestId] = useState(0);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
   const [skipDeleteWarningChecked, setSkipDeleteWarningChecked] = useState(false);
@@ -122,7 +125,7 @@ export function HistoryList({ isActive = true }: HistoryListProps) {
           { id: 'schema', label: `Schema: ${activeProfile.schemaName}` },
           { id: 'profile', label: `Profile: ${activeProfileName ?? activeProfile.id.slice(0, 8)}` },
         ],
-        placeholder: 'Add your OpenAI key in Settings to refine profiles.',
+        placeholder: `Add your ${providerName} key in Settings to refine profiles.`,
         submitLabel: 'Refine',
         disabled: true,
         disabledReason: 'Open Settings and add an API key.',
@@ -148,8 +151,9 @@ export function HistoryList({ isActive = true }: HistoryListProps) {
         commandSeq.current += 1;
         setExternalCommand({ id: commandSeq.current, text: prompt });
       },
+      onCancel: () => setCancelRequestId((prev) => prev + 1),
     });
-  }, [activeProfile, activeProfileName, hasApiKey, isActive, isProfileBusy, setConfig]);
+  }, [activeProfile, activeProfileName, hasApiKey, providerName, isActive, isProfileBusy, setConfig]);
 
   useEffect(() => {
     if (!isActive) return;
@@ -225,6 +229,7 @@ export function HistoryList({ isActive = true }: HistoryListProps) {
             <ProfileRefinePanel
               profile={activeProfile}
               externalCommand={externalCommand}
+              cancelRequestId={cancelRequestId}
               onBusyChange={setIsProfileBusy}
             />
           </div>
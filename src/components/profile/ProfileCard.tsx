@@ -2,7 +2,7 @@ import type { GeneratedProfile } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { cn, formatDate } from '@/lib/utils';
-import { PROVIDER_CONFIGS } from '@/services/types';
+import { PROVIDER_CONFIGS, getModelName } from '@/services/types';
 import { resolveGeneratedProfileDisplayName } from '@/lib/profileIdentity';
 import { useSchemaStore } from '@/stores/schemaStore';
 import { Copy, Trash2 } from 'lucide-react';
@@ -22,6 +22,7 @@ export function ProfileCard({ profile, active, onClick, compact, onDuplicate, on
   const displayName = resolveGeneratedProfileDisplayName(profile, { schema });
 
   const providerName = PROVIDER_CONFIGS[profile.provider]?.name ?? profile.provider;
+  const modelName = getModelName(profile.provider, profile.model);
 
   return (
     <Card
@@ -71,6 +72,15 @@ export function ProfileCard({ profile, active, onClick, compact, onDuplicate, on
                 )}
               </div>
             )}
+            {profile.draft && (
+              <Badge
+                variant="outline"
+                className="shrink-0 text-[10px] text-amber-300 border-amber-500/40"
+                title={profile.draft.error ?? 'Generation was stopped before the final pass'}
+              >
+                draft {profile.draft.completedPasses}/{profile.draft.totalPasses}
+              </Badge>
+            )}
             <Badge variant="secondary" className="shrink-0 text-[10px]">
               {providerName}
             </Badge>
@@ -80,7 +90,7 @@ export function ProfileCard({ profile, active, onClick, compact, onDuplicate, on
       {!compact && (
         <CardContent className="pt-0">
           <div className="flex items-center gap-3 text-[10px] text-muted-foreground">
-            <span>{profile.model}</span>
+            <span>{modelName}</span>
             <span>T: {profile.temperature.toFixed(1)}</span>
             <span>{formatDate(profile.generatedAt)}</span>
           </div>
@@ -3,27 +3,48 @@ import { useSettingsStore } from '@/stores/settingsStore';
 import { useSchemaStore } from '@/stores/schemaStore';
 import { useProfileStore } from '@/stores/profileStore';
 import { useNavigationStore } from '@/stores/navigationStore';
-import { refineProfile, suggestProfileTransforms } from '@/services/provider';
+import {
+  refineProfile,
+  resumeGeneration,
+  reviewProfileConsistency,
+  suggestFieldAlternatives,
+  suggestProfileTransforms,
+} from '@/services/provider';
+import { PROVIDER_CONFIGS } from '@/services/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Textarea } from '@/components/ui/Textarea';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { toast } from '@/stores/toastStore';
-import { formatDate, generateId, truncate } from '@/lib/utils';
+import { createRunController } from '@/stores/consoleStreamStore';
+import { formatDate, generateId, isAbortError, truncate } from '@/lib/utils';
 import { resolveProfileDisplayName, resolveProfileNameFieldKey } from '@/lib/profileIdentity';
+import { isPathWithin } from '@/lib/fieldPaths';
 import { storage } from '@/lib/storage';
+import { addUsage, describeUsage, resultUsage, summarizeProfileUsage, summarizeUsage } from '@/lib/usage';
 import { ProfileStructuredFieldInput } from './ProfileStructuredFieldInput';
 import {
+  appendRevision,
   applyPathSelections,
   cloneJson,
   diffPaths,
   evaluateConfidence,
+  evaluateConstraints,
+  flattenFieldOptions,
   getPathValue,
   setPathValue,
 } from '@/lib/workspace';
 import type {
   ConfidenceReport,
+  ConsistencyIssue,
+  ConsistencyReview,
+  ConstraintViolation,
+  FieldAlternatives,
   GeneratedProfile,
+  GenerationResult,
+  LLMTarget,
+  ModelUsage,
+  PartialGeneration,
   ProfileRevision,
   ProfileRevisionKind,
   SchemaField,
@@ -39,6 +60,10 @@ import {
   WandSparkles,
   MessagesSquare,
   Download,
+  Lock,
+  Shuffle,
+  ShieldCheck,
+  X,
 } from 'lucide-react';
 
 interface ProfileRefinePanelProps {
@@ -46,9 +71,14 @@ interface ProfileRefinePanelProps {
   onProfileUpdated?: (profile: GeneratedProfile) => void;
   disabled?: boolean;
   externalCommand?: { id: number; text: string } | null;
+  /** Bumped by the parent to abort the in-flight refinement */
+  cancelRequestId?: number;
   onBusyChange?: (busy: boolean) => void;
 }
 
+/** Values requested per field; enums, scales and booleans may offer fewer */
+const ALTERNATIVE_COUNT = 4;
+
 const DEFAULT_TRANSFORMS = [
   'Make tone more concise and grounded.',
   'Increase emotional warmth without losing clarity.',
@@ -58,41 +88,6 @@ const DEFAULT_TRANSFORMS = [
   'Increase contrast in strengths and flaws.',
 ];
 
-function mergeRevision(
-  profile: GeneratedProfile,
-  kind: ProfileRevisionKind,
-  prompt: string,
-  snapshot: Record<string, unknown>,
-  options?: {
-    selectedFields?: string[];
-    lockedFields?: string[];
-    confidence?: ConfidenceReport;
-    parentRevisionId?: string;
-  }
-): GeneratedProfile {
-  const currentRevisions = profile.revisions ? [...profile.revisions] : [];
-  const newRevisionId = generateId();
-  const revision: ProfileRevision = {
-    id: newRevisionId,
-    createdAt: new Date().toISOString(),
-    kind,
-    prompt,
-    snapshot,
-    selectedFields: options?.selectedFields,
-    lockedFields: options?.lockedFields,
-    confidence: options?.confidence,
-    parentRevisionId: options?.parentRevisionId,
-  };
-  currentRevisions.push(revision);
-  return {
-    ...profile,
-    generatedAt: revision.createdAt,
-    profile: snapshot,
-    revisions: currentRevisions,
-    activeRevisionId: newRevisionId,
-  };
-}
-
 function mergeAutosaveSnapshot(
   profile: GeneratedProfile,
   snapshot: Record<string, unknown>,
@@ -163,6 +158,17 @@ function buildConstraintPatch(
   return patch;
 }
 
+/**
+ * Adds a consistency review's tokens to a revision's usage. A revision records
+ * one model, so a review run on a different model is left uncounted there.
+ */
+function addReviewUsage(usage: ModelUsage | undefined, target: LLMTarget, review: ConsistencyReview): ModelUsage | undefined {
+  if (!review.tokensUsed) return usage;
+  if (!usage) return { provider: target.provider, model: target.model, ...review.tokensUsed };
+  if (usage.provider !== target.provider || usage.model !== target.model) return usage;
+  return { ...usage, ...addUsage(usage, review.tokensUsed) };
+}
+
 function ConfidenceStrip({ confidence }: { confidence: ConfidenceReport }) {
   return (
     <div className="flex flex-wrap items-center gap-2 text-[11px]">
@@ -173,6 +179,11 @@ function ConfidenceStrip({ confidence }: { confidence: ConfidenceReport }) {
         fields-{confidence.fieldsComplete ? 'complete' : 'partial'}
       </Badge>
       <Badge variant="outline" className="text-[10px]">passes:{confidence.passes}</Badge>
+      {confidence.repair && (
+        <Badge variant="outline" className="text-[10px]">
+          repaired:{confidence.repair.repaired.length}/{confidence.repair.attempted.length}
+        </Badge>
+      )}
       {confidence.warnings.length > 0 && (
         <Badge variant="outline" className="text-[10px] text-amber-300 border-amber-500/40">
           {confidence.warnings.length} warning{confidence.warnings.length > 1 ? 's' : ''}
@@ -200,9 +211,11 @@ export function ProfileRefinePanel({
   onProfileUpdated,
   disabled = false,
   externalCommand = null,
+  cancelRequestId = 0,
   onBusyChange,
 }: ProfileRefinePanelProps) {
-  const { hasApiKey, getApiKey } = useSettingsStore();
+  const { settings, hasApiKey, getLLMTarget } = useSettingsStore();
+  const providerName = PROVIDER_CONFIGS[settings.provider].name;
   const { presets } = useSchemaStore();
   const { updateProfile, addProfile, setActiveProfile } = useProfileStore();
   const { setActiveView } = useNavigationStore();
@@ -220,14 +233,20 @@ export function ProfileRefinePanel({
   const [candidateDiffPaths, setCandidateDiffPaths] = useState<string[]>([]);
   const [selectedDiffPaths, setSelectedDiffPaths] = useState<string[]>([]);
   const [candidateConfidence, setCandidateConfidence] = useState<ConfidenceReport | null>(null);
+  const [candidateUsage, setCandidateUsage] = useState<ModelUsage | undefined>(undefined);
 
   const [fieldDraft, setFieldDraft] = useState<Record<string, unknown>>(profile.profile);
   const [workspaceDraft, setWorkspaceDraft] = useState('');
   const [workspaceError, setWorkspaceError] = useState('');
   const [useWorkspaceConstraints, setUseWorkspaceConstraints] = useState(false);
   const [autoAcceptChanges, setAutoAcceptChanges] = useState(false);
+  const [fieldAlternatives, setFieldAlternatives] = useState<FieldAlternatives | null>(null);
+  const [alternativesPath, setAlternativesPath] = useState<string | null>(null);
+  const [reviewAfterRefine, setReviewAfterRefine] = useState(false);
+  const [isCheckingConsistency, setIsCheckingConsistency] = useState(false);
 
   const lastExternalCommandId = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const loadedProfileIdRef = useRef<string | null>(null);
   const profileRef = useRef(profile);
   const lastPersistedSnapshotRef = useRef(JSON.stringify(profile.profile));
@@ -272,10 +291,16 @@ export function ProfileRefinePanel({
     });
   }, [schema, fieldDraft, nameFieldPath]);
   const revisions = useMemo(() => profile.revisions ?? [], [profile.revisions]);
+  const profileUsage = useMemo(() => summarizeProfileUsage(profile, settings.prices), [profile, settings.prices]);
   const activeConfidence = useMemo(() => {
     const active = revisions.find((revision) => revision.id === profile.activeRevisionId);
     return active?.confidence ?? (schema ? evaluateConfidence(schema, fieldDraft, schema.generationOrder?.length ?? 1) : null);
   }, [revisions, profile.activeRevisionId, schema, fieldDraft]);
+  // Checked against the workspace as edited, so fixing a field clears its violation right away.
+  const constraintViolations = useMemo(
+    () => (schema?.constraints?.length ? evaluateConstraints(schema.constraints, fieldDraft) : []),
+    [schema, fieldDraft]
+  );
 
   useEffect(() => {
     profileRef.current = profile;
@@ -303,6 +328,10 @@ export function ProfileRefinePanel({
     );
   };
 
+  /** Alternatives replace the whole field, so a lock on it, a parent or any nested field rules them out. */
+  const isAlternativesLocked = (path: string) =>
+    isPathWithin(path, lockedFields) || lockedFields.some((locked) => isPathWithin(locked, [path]));
+
   const toggleDiffPath = (path: string) => {
     setSelectedDiffPaths((prev) =>
       prev.includes(path) ? prev.filter((item) => item !== path) : [...prev, path]
@@ -320,21 +349,26 @@ export function ProfileRefinePanel({
   const loadTransformSuggestions = useCallback(async () => {
     if (!schema) return;
     if (!hasApiKey()) return;
+    const { controller, release } = createRunController();
     setIsSuggesting(true);
     try {
       const suggestions = await suggestProfileTransforms(
-        getApiKey(),
+        getLLMTarget('transformSuggestions'),
         schema,
         fieldDraft,
-        selectedFields
+        selectedFields,
+        undefined,
+        controller.signal,
+        profile.id
       );
       setTransformSuggestions(suggestions.length > 0 ? suggestions : DEFAULT_TRANSFORMS);
     } catch {
       setTransformSuggestions(DEFAULT_TRANSFORMS);
     } finally {
+      release();
       setIsSuggesting(false);
     }
-  }, [schema, hasApiKey, getApiKey, fieldDraft, selectedFields]);
+  }, [schema, hasApiKey, getLLMTarget, fieldDraft, selectedFields, profile.id]);
 
   const parseWorkspaceConstraints = useCallback((baseProfile: Record<string, unknown>): Record<string, unknown> | undefined => {
     if (!useWorkspaceConstraints) return undefined;
@@ -389,6 +423,7 @@ export function ProfileRefinePanel({
     setCandidateDiffPaths([]);
     setSelectedDiffPaths([]);
     setCandidateConfidence(null);
+    setFieldAlternatives(null);
     setFieldDraft(cloneJson(profile.profile));
     setWorkspaceDraft(JSON.stringify(profile.profile, null, 2));
     setWorkspaceError('');
@@ -436,13 +471,14 @@ export function ProfileRefinePanel({
     };
   }, [flushAutosave]);
 
-  const handleRun = useCallback(async (instruction: string) => {
+  /** `targetPaths` overrides the targeted fields, e.g. for a consistency fix */
+  const handleRun = useCallback(async (instruction: string, targetPaths?: string[]) => {
     if (!schema) {
       toast('Schema missing', 'Could not locate the schema for this profile.', 'error');
       return;
     }
     if (!hasApiKey()) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerName} API key in Settings.`, 'error');
       return;
     }
     if (!instruction.trim()) {
@@ -453,7 +489,11 @@ export function ProfileRefinePanel({
     const constraints = parseWorkspaceConstraints(cloneJson(profile.profile));
 
     const currentSnapshot = cloneJson(fieldDraft);
+    const targets = targetPaths ?? selectedFields;
+    const target = getLLMTarget('profileRefinement');
 
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
     setIsRefining(true);
     setPipelineStarted(true);
     setPipelineStage(0);
@@ -465,23 +505,44 @@ export function ProfileRefinePanel({
     try {
       setPipelineStage(1);
       const result = await refineProfile(
-        getApiKey(),
+        target,
         schema,
         currentSnapshot,
         profile.prompt,
         instruction.trim(),
-        selectedFields,
+        targets,
         lockedFields,
         constraints,
         (token) => {
           void token;
           setPipelineStage(2);
-        }
+        },
+        controller.signal,
+        profile.id
       );
 
+      let consistencyIssues: ConsistencyIssue[] | undefined;
+      let usage = resultUsage(result);
+      if (reviewAfterRefine) {
+        try {
+          const review = await reviewProfileConsistency(target, schema, result.profile, profile.prompt, controller.signal, profile.id);
+          consistencyIssues = review.issues;
+          usage = addReviewUsage(usage, target, review);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          toast('Consistency review failed', error instanceof Error ? error.message : 'The refined profile was not reviewed.', 'error');
+        }
+      }
+
       setPipelineStage(3);
       const changed = diffPaths(currentSnapshot, result.profile).filter((path) => path !== '$');
-      const confidence = evaluateConfidence(schema, result.profile, schema.generationOrder?.length ?? 1);
+      const confidence = evaluateConfidence(
+        schema,
+        result.profile,
+        schema.generationOrder?.length ?? 1,
+        result.repair,
+        consistencyIssues
+      );
       setCommand(instruction.trim());
 
       if (autoAcceptChanges) {
@@ -490,16 +551,17 @@ export function ProfileRefinePanel({
           return;
         }
 
-        const merged = mergeRevision(
+        const merged = appendRevision(
           profile,
           'refine',
           instruction.trim(),
           result.profile,
           {
-            selectedFields,
+            selectedFields: targets,
             lockedFields,
             confidence,
             parentRevisionId: profile.activeRevisionId,
+            usage,
           }
         );
         await updateProfile(merged);
@@ -520,31 +582,169 @@ export function ProfileRefinePanel({
       setCandidateDiffPaths(changed);
       setSelectedDiffPaths(changed);
       setCandidateConfidence(confidence);
+      setCandidateUsage(usage);
       toast('Review changes', changed.length > 0 ? 'Accept or reject generated diff.' : 'No changes detected.');
     } catch (error) {
+      if (isAbortError(error)) {
+        setPipelineStarted(false);
+        toast('Refinement stopped', 'The profile was left unchanged.');
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Refinement failed.';
       toast('Refinement failed', message, 'error');
     } finally {
+      release();
+      abortRef.current = null;
       setIsRefining(false);
     }
   }, [
     schema,
     hasApiKey,
-    getApiKey,
+    providerName,
+    getLLMTarget,
     profile,
     fieldDraft,
     selectedFields,
     lockedFields,
     autoAcceptChanges,
+    reviewAfterRefine,
     updateProfile,
     onProfileUpdated,
     parseWorkspaceConstraints,
   ]);
 
+  /**
+   * Runs the passes a draft is missing. Finished passes are read from the
+   * workspace as it is now, so fields edited since the run stopped feed the
+   * remaining passes.
+   */
+  const handleResumeGeneration = useCallback(async () => {
+    const draft = profile.draft;
+    if (!draft) return;
+    if (!schema) {
+      toast('Schema missing', 'Could not locate the schema for this profile.', 'error');
+      return;
+    }
+    if (!hasApiKey()) {
+      toast('No API key', `Add your ${providerName} API key in Settings.`, 'error');
+      return;
+    }
+
+    const resume: PartialGeneration = {
+      profile: cloneJson(fieldDraft),
+      completedPasses: draft.completedPassIndexes ?? Array.from({ length: draft.completedPasses }, (_, index) => index),
+      totalPasses: draft.totalPasses,
+    };
+
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
+    setIsRefining(true);
+
+    try {
+      const outcome = await new Promise<
+        | { status: 'complete'; result: GenerationResult }
+        | { status: 'error'; error: string; partial?: PartialGeneration }
+        | { status: 'cancelled'; partial: PartialGeneration }
+      >((resolve) => {
+        void resumeGeneration(
+          getLLMTarget('profileGeneration'),
+          schema,
+          draft.brief ?? profile.prompt ?? '',
+          { seeds: profile.seeds },
+          resume,
+          {
+            onPassStart: () => {
+              // the console popup shows pass progress
+            },
+            onToken: () => {
+              // console popup handles raw token stream globally
+            },
+            onPassComplete: () => {
+              // no-op
+            },
+            onComplete: (result) => resolve({ status: 'complete', result }),
+            onError: (error, partial) => resolve({ status: 'error', error, partial }),
+            onCancel: (partial) => resolve({ status: 'cancelled', partial }),
+          },
+          controller.signal,
+          profile.id
+        );
+      });
+
+      const base = profileRef.current;
+      if (outcome.status === 'complete') {
+        const { result } = outcome;
+        const merged: GeneratedProfile = {
+          ...appendRevision(base, 'resume', 'Resumed generation', result.profile, {
+            confidence: evaluateConfidence(schema, result.profile, schema.generationOrder?.length ?? 1, result.repair),
+            parentRevisionId: base.activeRevisionId,
+            usage: resultUsage(result),
+          }),
+          draft: undefined,
+        };
+        await updateProfile(merged);
+        onProfileUpdated?.(merged);
+        profileRef.current = merged;
+        lastPersistedSnapshotRef.current = JSON.stringify(result.profile);
+        setFieldDraft(cloneJson(result.profile));
+        setWorkspaceDraft(JSON.stringify(result.profile, null, 2));
+        toast('Generation finished', 'All passes are complete.', 'success');
+        return;
+      }
+
+      // Keep any passes this attempt finished so the next resume starts after them.
+      const partial = outcome.partial;
+      const progressed = !!partial && partial.completedPasses.length > resume.completedPasses.length;
+      const error = outcome.status === 'error' ? outcome.error : undefined;
+      const nextDraft = {
+        ...draft,
+        stoppedAt: new Date().toISOString(),
+        error,
+        ...(progressed && partial
+          ? { completedPasses: partial.completedPasses.length, completedPassIndexes: partial.completedPasses }
+          : {}),
+      };
+      const next: GeneratedProfile = progressed && partial
+        ? {
+          ...appendRevision(base, 'resume', 'Resumed generation (partial)', partial.profile, {
+            confidence: evaluateConfidence(schema, partial.profile, partial.completedPasses.length),
+            parentRevisionId: base.activeRevisionId,
+          }),
+          draft: nextDraft,
+        }
+        : { ...base, draft: nextDraft };
+      await updateProfile(next);
+      onProfileUpdated?.(next);
+      profileRef.current = next;
+      if (progressed && partial) {
+        lastPersistedSnapshotRef.current = JSON.stringify(partial.profile);
+        setFieldDraft(cloneJson(partial.profile));
+        setWorkspaceDraft(JSON.stringify(partial.profile, null, 2));
+      }
+      if (error) {
+        toast('Resume failed', error, 'error');
+      } else {
+        toast('Generation stopped', `Draft now has ${nextDraft.completedPasses}/${nextDraft.totalPasses} passes.`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not save the resumed profile.';
+      toast('Resume failed', message, 'error');
+    } finally {
+      release();
+      abortRef.current = null;
+      setIsRefining(false);
+    }
+  }, [schema, hasApiKey, providerName, getLLMTarget, profile, fieldDraft, updateProfile, onProfileUpdated]);
+
   useEffect(() => {
     onBusyChange?.(isRefining);
   }, [isRefining, onBusyChange]);
 
+  useEffect(() => {
+    if (cancelRequestId === 0) return;
+    abortRef.current?.abort();
+  }, [cancelRequestId]);
+
   useEffect(() => {
     if (!externalCommand) return;
     if (lastExternalCommandId.current === externalCommand.id) return;
@@ -562,9 +762,10 @@ export function ProfileRefinePanel({
       lockedFields?: string[];
       confidence?: ConfidenceReport;
       parentRevisionId?: string;
+      usage?: ModelUsage;
     }
   ) => {
-    const merged = mergeRevision(profile, kind, prompt, nextSnapshot, options);
+    const merged = appendRevision(profile, kind, prompt, nextSnapshot, options);
     await updateProfile(merged);
     onProfileUpdated?.(merged);
     setFieldDraft(cloneJson(nextSnapshot));
@@ -589,6 +790,7 @@ export function ProfileRefinePanel({
         lockedFields,
         confidence,
         parentRevisionId: profile.activeRevisionId,
+        usage: candidateUsage,
       }
     );
     toast('Changes accepted', 'All regenerated changes were applied.', 'success');
@@ -608,6 +810,7 @@ export function ProfileRefinePanel({
         lockedFields,
         confidence,
         parentRevisionId: profile.activeRevisionId,
+        usage: candidateUsage,
       }
     );
     toast('Changes accepted', `Applied ${selected.length} selected diff item${selected.length > 1 ? 's' : ''}.`, 'success');
@@ -646,6 +849,128 @@ export function ProfileRefinePanel({
     }
   };
 
+  /** Reviews the workspace as it is now and records the issues on the active revision. */
+  const handleCheckConsistency = async () => {
+    if (!schema) return;
+    if (!hasApiKey()) {
+      toast('No API key', `Add your ${providerName} API key in Settings.`, 'error');
+      return;
+    }
+
+    const snapshot = cloneJson(fieldDraft);
+    const target = getLLMTarget('profileRefinement');
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
+    setIsRefining(true);
+    setIsCheckingConsistency(true);
+    try {
+      const review = await reviewProfileConsistency(target, schema, snapshot, profile.prompt, controller.signal, profile.id);
+      const base = profileRef.current;
+      const active = base.revisions?.find((revision) => revision.id === base.activeRevisionId);
+      const confidence = evaluateConfidence(
+        schema,
+        snapshot,
+        active?.confidence?.passes ?? schema.generationOrder?.length ?? 1,
+        active?.confidence?.repair,
+        review.issues
+      );
+      const checked = mergeAutosaveSnapshot(base, snapshot, confidence);
+      const next: GeneratedProfile = {
+        ...checked,
+        revisions: checked.revisions?.map((revision) => (
+          revision.id === checked.activeRevisionId
+            ? { ...revision, usage: addReviewUsage(revision.usage, target, review) }
+            : revision
+        )),
+      };
+      await updateProfile(next);
+      onProfileUpdated?.(next);
+      profileRef.current = next;
+      lastPersistedSnapshotRef.current = JSON.stringify(snapshot);
+      toast(
+        'Consistency checked',
+        review.issues.length > 0
+          ? `Found ${review.issues.length} issue${review.issues.length > 1 ? 's' : ''}.`
+          : 'No contradictions found.',
+        review.issues.length > 0 ? 'default' : 'success'
+      );
+    } catch (error) {
+      if (!isAbortError(error)) {
+        toast('Consistency review failed', error instanceof Error ? error.message : 'Could not review the profile.', 'error');
+      }
+    } finally {
+      release();
+      abortRef.current = null;
+      setIsRefining(false);
+      setIsCheckingConsistency(false);
+    }
+  };
+
+  const handleFixConsistency = (issue: ConsistencyIssue) => {
+    const instruction = `Fix this inconsistency: ${issue.explanation} Suggested fix: ${issue.suggestedFix}`;
+    setCommand(instruction);
+    void handleRun(instruction, issue.paths);
+  };
+
+  const handleFixViolation = (violation: ConstraintViolation) => {
+    const instruction = `Fix this broken rule: ${violation.message}. Change only what the rule requires.`;
+    setCommand(instruction);
+    void handleRun(instruction, violation.paths);
+  };
+
+  const handleRequestAlternatives = async (path: string) => {
+    if (!schema || isAlternativesLocked(path)) return;
+    if (!hasApiKey()) {
+      toast('No API key', `Add your ${providerName} API key in Settings.`, 'error');
+      return;
+    }
+
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
+    setIsRefining(true);
+    setAlternativesPath(path);
+    setFieldAlternatives(null);
+    try {
+      const result = await suggestFieldAlternatives(
+        getLLMTarget('profileRefinement'),
+        schema,
+        cloneJson(fieldDraft),
+        path,
+        ALTERNATIVE_COUNT,
+        profile.prompt,
+        controller.signal,
+        profile.id
+      );
+      setFieldAlternatives(result);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        toast('Alternatives failed', error instanceof Error ? error.message : 'Could not suggest alternatives.', 'error');
+      }
+    } finally {
+      release();
+      abortRef.current = null;
+      setIsRefining(false);
+      setAlternativesPath(null);
+    }
+  };
+
+  const handleApplyAlternative = async (alternatives: FieldAlternatives, value: unknown) => {
+    if (!schema || isAlternativesLocked(alternatives.path)) return;
+    const snapshot = setPathValue(cloneJson(fieldDraft), alternatives.path, value);
+    await applyUpdatedProfile(
+      snapshot,
+      'edit',
+      `Picked alternative for ${alternatives.path}`,
+      {
+        selectedFields: [alternatives.path],
+        confidence: evaluateConfidence(schema, snapshot, schema.generationOrder?.length ?? 1),
+        parentRevisionId: profile.activeRevisionId,
+        usage: resultUsage(alternatives),
+      }
+    );
+    setFieldAlternatives(null);
+  };
+
   const handleRevert = async (revision: ProfileRevision) => {
     if (!schema) return;
     const snapshot = cloneJson(revision.snapshot);
@@ -756,6 +1081,24 @@ export function ProfileRefinePanel({
 
   return (
     <div className="space-y-4 animate-in fade-in duration-200">
+      {profile.draft && (
+        <div className="flex items-start gap-3 rounded-md border border-amber-500/40 bg-amber-500/10 p-3">
+          <AlertCircle className="h-4 w-4 shrink-0 text-amber-400 mt-0.5" />
+          <div className="flex-1 space-y-1 text-xs">
+            <p className="font-medium text-amber-300">
+              Draft: {profile.draft.completedPasses}/{profile.draft.totalPasses} passes finished
+            </p>
+            {profile.draft.error && <p className="text-muted-foreground">{profile.draft.error}</p>}
+            <p className="text-muted-foreground">
+              Edit any finished fields below first if you like; resuming generates only the missing passes from what is here.
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => void handleResumeGeneration()} disabled={isBlocked}>
+            {isRefining ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5" />}
+            Resume generation
+          </Button>
+        </div>
+      )}
       {candidateProfile && (
         <Card>
           <CardHeader>
@@ -849,6 +1192,7 @@ export function ProfileRefinePanel({
                 const value = fieldDraft[field.path];
                 const selected = selectedFields.includes(field.path);
                 const locked = lockedFields.includes(field.path);
+                const alternativesLocked = isAlternativesLocked(field.path);
                 const schemaField = field.schemaField;
 
                 return (
@@ -883,15 +1227,96 @@ export function ProfileRefinePanel({
                         >
                           {locked ? 'Locked' : 'Lock'}
                         </button>
+                        {schemaField && (
+                          <button
+                            onClick={() => void handleRequestAlternatives(field.path)}
+                            disabled={isBlocked || alternativesLocked}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-border text-muted-foreground hover:border-primary/50 hover:text-foreground transition-colors cursor-pointer disabled:opacity-50"
+                            title={alternativesLocked
+                              ? 'Unlock this field to suggest alternatives'
+                              : 'Suggest alternative values for this field, keeping every other field as is'}
+                          >
+                            {alternativesPath === field.path
+                              ? <Loader2 className="h-3 w-3 animate-spin" />
+                              : <Shuffle className="h-3 w-3" />}
+                            Alternatives
+                          </button>
+                        )}
                       </div>
                     </div>
 
+                    {schemaField?.type === 'object' && schemaField.fields?.length ? (
+                      <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+                        <span className="text-muted-foreground">Nested:</span>
+                        {flattenFieldOptions(schemaField.fields, field.path).map((option) => {
+                          const nestedSelected = selectedFields.includes(option.path);
+                          const nestedLocked = lockedFields.includes(option.path);
+                          return (
+                            <span
+                              key={option.path}
+                              className={`inline-flex items-center rounded-full border transition-colors ${
+                                nestedSelected ? 'border-primary bg-primary/15' : nestedLocked ? 'border-amber-500/70 bg-amber-500/15' : 'border-border'
+                              }`}
+                            >
+                              <button
+                                onClick={() => toggleSelection(option.path)}
+                                disabled={isBlocked}
+                                className={`pl-2 pr-1 py-0.5 cursor-pointer disabled:opacity-50 ${
+                                  nestedSelected ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'
+                                }`}
+                                title={nestedSelected ? `Remove ${option.path} from regenerate target` : `Target only ${option.path} for regenerate`}
+                              >
+                                {option.label}
+                              </button>
+                              <button
+                                onClick={() => toggleLock(option.path)}
+                                disabled={isBlocked}
+                                className={`pl-1 pr-2 py-0.5 cursor-pointer disabled:opacity-50 ${
+                                  nestedLocked ? 'text-amber-100' : 'text-muted-foreground hover:text-foreground'
+                                }`}
+                                title={nestedLocked ? `Unlock ${option.path}` : `Lock ${option.path} from regeneration`}
+                              >
+                                <Lock className="h-3 w-3" />
+                              </button>
+                            </span>
+                          );
+                        })}
+                      </div>
+                    ) : null}
+
                     <ProfileStructuredFieldInput
                       field={schemaField}
                       value={value}
                       disabled={isBlocked}
                       onChange={(nextValue) => updateFieldDraftValue(field.path, nextValue)}
                     />
+
+                    {fieldAlternatives?.path === field.path && (
+                      <div className="space-y-1.5 rounded-md border border-primary/30 bg-primary/5 p-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-[11px] font-medium text-muted-foreground">
+                            Alternatives: click one to apply it as an edit
+                          </span>
+                          <button
+                            onClick={() => setFieldAlternatives(null)}
+                            className="text-muted-foreground hover:text-foreground cursor-pointer"
+                            title="Dismiss alternatives"
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                        {fieldAlternatives.values.map((alternative, index) => (
+                          <button
+                            key={index}
+                            onClick={() => void handleApplyAlternative(fieldAlternatives, alternative)}
+                            disabled={isBlocked || alternativesLocked}
+                            className="block w-full rounded border border-border bg-background/60 px-2 py-1.5 text-left text-xs whitespace-pre-wrap break-words hover:border-primary/50 transition-colors cursor-pointer disabled:opacity-50"
+                          >
+                            {truncate(Array.isArray(alternative) ? alternative.map(renderValue).join('\n') : renderValue(alternative), 240)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -916,6 +1341,15 @@ export function ProfileRefinePanel({
                   />
                   Auto-accept changes
                 </label>
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={reviewAfterRefine}
+                    onChange={(event) => setReviewAfterRefine(event.target.checked)}
+                    className="h-3.5 w-3.5 accent-primary"
+                  />
+                  Review consistency after regenerate
+                </label>
               </div>
               <div className="text-xs text-muted-foreground">Inline field edits save automatically.</div>
             </div>
@@ -976,6 +1410,71 @@ export function ProfileRefinePanel({
             </div>
             {activeConfidence && <ConfidenceStrip confidence={activeConfidence} />}
           </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium text-muted-foreground">Consistency</label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => void handleCheckConsistency()}
+                disabled={isBlocked}
+                className="h-7 text-[11px]"
+              >
+                {isCheckingConsistency ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ShieldCheck className="h-3.5 w-3.5" />}
+                Check consistency
+              </Button>
+            </div>
+            {constraintViolations.map((violation) => (
+              <div key={violation.constraintId} className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/5 p-2">
+                <div className="flex-1 space-y-0.5 text-[11px]">
+                  <p className="font-medium">Rule broken: {violation.paths.join(', ')}</p>
+                  <p className="text-muted-foreground">{violation.message}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-[11px]"
+                  onClick={() => handleFixViolation(violation)}
+                  disabled={isBlocked}
+                  title={`Regenerate ${violation.paths.join(', ')} to satisfy this rule`}
+                >
+                  <WandSparkles className="h-3.5 w-3.5" />
+                  Fix
+                </Button>
+              </div>
+            ))}
+            {!activeConfidence?.consistencyIssues ? (
+              <p className="text-[11px] text-muted-foreground">
+                Not reviewed yet. A check looks for fields that contradict their dependencies or hints.
+              </p>
+            ) : activeConfidence.consistencyIssues.length === 0 ? (
+              <p className="text-[11px] text-muted-foreground">No contradictions found in the last review.</p>
+            ) : (
+              activeConfidence.consistencyIssues.map((issue, index) => (
+                <div key={index} className="flex items-start gap-2 rounded-md border border-amber-500/40 bg-amber-500/5 p-2">
+                  <div className="flex-1 space-y-0.5 text-[11px]">
+                    <p className="font-medium">{issue.paths.join(', ')}</p>
+                    <p className="text-muted-foreground">{issue.explanation}</p>
+                    <p className="text-muted-foreground">
+                      <span className="text-emerald-300">fix:</span> {issue.suggestedFix}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-[11px]"
+                    onClick={() => handleFixConsistency(issue)}
+                    disabled={isBlocked}
+                    title={`Regenerate ${issue.paths.join(', ')} to resolve this issue`}
+                  >
+                    <WandSparkles className="h-3.5 w-3.5" />
+                    Fix
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -1048,8 +1547,11 @@ export function ProfileRefinePanel({
       </details>
 
       <details className="group rounded-md border border-border bg-card">
-        <summary className="list-none cursor-pointer px-4 py-3 text-sm font-medium text-foreground">
-          Revision History
+        <summary className="list-none cursor-pointer px-4 py-3 text-sm font-medium text-foreground flex items-center justify-between gap-2">
+          <span>Revision History</span>
+          {profileUsage && (
+            <span className="text-[11px] font-normal font-mono text-muted-foreground">{describeUsage(profileUsage)}</span>
+          )}
         </summary>
         <div className="px-4 pb-4 space-y-2">
           {revisions.length === 0 && (
@@ -1074,7 +1576,21 @@ export function ProfileRefinePanel({
                 </div>
               </div>
               <p className="text-[11px] text-muted-foreground">{truncate(revision.prompt, 180)}</p>
+              {revision.candidatePicks && (
+                <p className="text-[11px] text-muted-foreground">
+                  Picked from candidates:{' '}
+                  {truncate(
+                    Object.entries(revision.candidatePicks).map(([path, index]) => `${path} #${index + 1}`).join(', '),
+                    180
+                  )}
+                </p>
+              )}
               {revision.confidence && <ConfidenceStrip confidence={revision.confidence} />}
+              {revision.usage && (
+                <p className="text-[11px] font-mono text-muted-foreground">
+                  {describeUsage(summarizeUsage([revision.usage], settings.prices))}
+                </p>
+              )}
             </div>
           ))}
         </div>
@@ -6,10 +6,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { toast } from '@/stores/toastStore';
 import { useProfileStore } from '@/stores/profileStore';
 import { useSchemaStore } from '@/stores/schemaStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { formatDate, cn } from '@/lib/utils';
-import { PROVIDER_CONFIGS } from '@/services/types';
+import { PROVIDER_CONFIGS, getModelName } from '@/services/types';
 import { resolveGeneratedProfileDisplayName } from '@/lib/profileIdentity';
+import { describeUsage, summarizeProfileUsage } from '@/lib/usage';
+import type { GenerationStreamState } from '@/lib/generationStream';
 import {
+  CheckCircle2,
+  Circle,
+  Loader2,
   Copy,
   Download,
   Trash2,
@@ -21,12 +27,17 @@ import {
 
 interface ProfileViewerProps {
   profile: GeneratedProfile;
+  /** Set while the profile is still generating; fields fill in as they stream and actions are hidden */
+  stream?: GenerationStreamState;
+  /** Hide copy, export and delete, for profiles that are not saved */
+  hideActions?: boolean;
 }
 
-export function ProfileViewer({ profile }: ProfileViewerProps) {
+export function ProfileViewer({ profile, stream, hideActions = false }: ProfileViewerProps) {
   const [showJson, setShowJson] = useState(false);
   const { deleteProfile } = useProfileStore();
   const { presets } = useSchemaStore();
+  const { settings } = useSettingsStore();
   const schema = presets.find((preset) => preset.id === profile.schemaId) ?? null;
   const displayName = resolveGeneratedProfileDisplayName(profile, { schema });
 
@@ -53,6 +64,8 @@ export function ProfileViewer({ profile }: ProfileViewerProps) {
   };
 
   const providerName = PROVIDER_CONFIGS[profile.provider]?.name ?? profile.provider;
+  const modelName = getModelName(profile.provider, profile.model);
+  const usage = summarizeProfileUsage(profile, settings.prices);
 
   return (
     <div className="space-y-4">
@@ -64,27 +77,37 @@ export function ProfileViewer({ profile }: ProfileViewerProps) {
           </h3>
           <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
             <Badge variant="secondary" className="text-[10px]">{providerName}</Badge>
-            <span>{profile.model}</span>
+            <span>{modelName}</span>
             <span>T: {profile.temperature.toFixed(1)}</span>
             <span>{formatDate(profile.generatedAt)}</span>
+            {usage && <span className="font-mono">{describeUsage(usage)}</span>}
           </div>
         </div>
-        <div className="flex items-center gap-1">
-          <Button variant="ghost" size="icon" onClick={handleCopy} title="Copy JSON">
-            <Copy className="h-4 w-4" />
-          </Button>
-          <Button variant="ghost" size="icon" onClick={handleExport} title="Export JSON">
-            <Download className="h-4 w-4" />
-          </Button>
-          <Button variant="ghost" size="icon" onClick={() => setShowJson(!showJson)} title="Toggle JSON view">
-            {showJson ? <FileText className="h-4 w-4" /> : <Code className="h-4 w-4" />}
-          </Button>
-          <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete" className="text-muted-foreground hover:text-destructive">
-            <Trash2 className="h-4 w-4" />
-          </Button>
-        </div>
+        {stream ? (
+          <Badge variant="outline" className="gap-1.5 text-[10px]">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Generating
+          </Badge>
+        ) : !hideActions && (
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={handleCopy} title="Copy JSON">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleExport} title="Export JSON">
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setShowJson(!showJson)} title="Toggle JSON view">
+              {showJson ? <FileText className="h-4 w-4" /> : <Code className="h-4 w-4" />}
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete" className="text-muted-foreground hover:text-destructive">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
       </div>
 
+      {stream && stream.passes.length > 1 && <PassTimeline stream={stream} />}
+
       {/* Content */}
       {showJson ? (
         <Card>
@@ -96,33 +119,78 @@ export function ProfileViewer({ profile }: ProfileViewerProps) {
         </Card>
       ) : (
         <div className="space-y-2">
-          <RenderObject data={profile.profile} />
+          <RenderObject data={profile.profile} activePaths={stream?.activePaths} />
         </div>
       )}
     </div>
   );
 }
 
-function RenderObject({ data, depth = 0 }: { data: Record<string, unknown>; depth?: number }) {
+function PassTimeline({ stream }: { stream: GenerationStreamState }) {
+  return (
+    <div className="space-y-1 rounded-md border border-border p-2">
+      {stream.passes.map((pass) => (
+        <div key={pass.index} className="flex items-center gap-2 text-[11px]">
+          {pass.status === 'complete' ? (
+            <CheckCircle2 className="h-3 w-3 shrink-0 text-primary" />
+          ) : pass.status === 'running' ? (
+            <Loader2 className="h-3 w-3 shrink-0 animate-spin text-primary" />
+          ) : (
+            <Circle className="h-3 w-3 shrink-0 text-muted-foreground" />
+          )}
+          <span className="font-medium shrink-0">Pass {pass.index + 1}</span>
+          <span className="truncate text-muted-foreground">
+            {pass.paths.length > 0 ? pass.paths.join(', ') : 'Waiting for earlier passes'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface RenderContext {
+  /** Dotted path of the object holding these fields; array indexes are left out */
+  path?: string;
+  /** Paths being written by a streaming generation */
+  activePaths?: string[];
+}
+
+function RenderObject({ data, depth = 0, path, activePaths }: { data: Record<string, unknown>; depth?: number } & RenderContext) {
   return (
     <>
       {Object.entries(data).map(([key, value]) => (
-        <RenderField key={key} fieldKey={key} value={value} depth={depth} />
+        <RenderField
+          key={key}
+          fieldKey={key}
+          value={value}
+          depth={depth}
+          path={path ? `${path}.${key}` : key}
+          activePaths={activePaths}
+        />
       ))}
     </>
   );
 }
 
-function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unknown; depth: number }) {
+function RenderField({
+  fieldKey,
+  value,
+  depth,
+  path = fieldKey,
+  activePaths,
+}: { fieldKey: string; value: unknown; depth: number } & RenderContext) {
   const [expanded, setExpanded] = useState(depth < 2);
   const label = fieldKey.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+  const active = activePaths?.includes(path) ?? false;
+  const containsActive = activePaths?.some((activePath) => activePath.startsWith(`${path}.`)) ?? false;
+  const highlight = active && 'rounded-md bg-primary/10 ring-1 ring-primary/40 px-2 -mx-2';
 
   if (value === null || value === undefined) return null;
 
   // Object
   if (typeof value === 'object' && !Array.isArray(value)) {
     return (
-      <Card className={cn(depth > 0 && 'shadow-none')}>
+      <Card className={cn(depth > 0 && 'shadow-none', (active || containsActive) && 'border-primary/40')}>
         <CardHeader
           className="cursor-pointer py-3"
           onClick={() => setExpanded(!expanded)}
@@ -134,7 +202,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
         </CardHeader>
         {expanded && (
           <CardContent className="pt-0 space-y-2">
-            <RenderObject data={value as Record<string, unknown>} depth={depth + 1} />
+            <RenderObject data={value as Record<string, unknown>} depth={depth + 1} path={path} activePaths={activePaths} />
           </CardContent>
         )}
       </Card>
@@ -152,7 +220,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
 
       if (looksNumbered) {
         return (
-          <div className="space-y-1">
+          <div className={cn('space-y-1', highlight)}>
             <label className="text-xs font-medium text-muted-foreground">{label}</label>
             <ol className="list-decimal list-inside space-y-0.5 text-sm break-words">
               {items.map((item, i) => (
@@ -166,7 +234,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
       }
 
       return (
-          <div className="space-y-1">
+          <div className={cn('space-y-1', highlight)}>
             <label className="text-xs font-medium text-muted-foreground">{label}</label>
             <div className="flex flex-wrap gap-1.5">
               {items.map((item, i) => (
@@ -181,7 +249,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
 
     // Array of objects
     return (
-      <Card className={cn(depth > 0 && 'shadow-none')}>
+      <Card className={cn(depth > 0 && 'shadow-none', (active || containsActive) && 'border-primary/40')}>
         <CardHeader className="py-3">
           <CardTitle className="text-sm">{label}</CardTitle>
         </CardHeader>
@@ -189,7 +257,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
           {value.map((item, i) => (
             <Card key={i} className="shadow-none">
               <CardContent className="p-3 space-y-1">
-                <RenderObject data={item as Record<string, unknown>} depth={depth + 1} />
+                <RenderObject data={item as Record<string, unknown>} depth={depth + 1} path={path} activePaths={activePaths} />
               </CardContent>
             </Card>
           ))}
@@ -201,7 +269,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
   // Boolean
   if (typeof value === 'boolean') {
     return (
-      <div className="flex items-center justify-between py-1">
+      <div className={cn('flex items-center justify-between py-1', highlight)}>
         <label className="text-xs font-medium text-muted-foreground">{label}</label>
         <Badge variant={value ? 'default' : 'secondary'} className="text-[10px]">
           {value ? 'Yes' : 'No'}
@@ -213,7 +281,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
   // Number
   if (typeof value === 'number') {
     return (
-      <div className="flex items-center justify-between py-1">
+      <div className={cn('flex items-center justify-between py-1', highlight)}>
         <label className="text-xs font-medium text-muted-foreground">{label}</label>
         <span className="text-sm font-mono">{value}</span>
       </div>
@@ -224,7 +292,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
   const text = String(value);
   if (text.length > 100) {
     return (
-      <div className="space-y-1">
+      <div className={cn('space-y-1', highlight)}>
         <label className="text-xs font-medium text-muted-foreground">{label}</label>
         <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{text}</p>
       </div>
@@ -232,7 +300,7 @@ function RenderField({ fieldKey, value, depth }: { fieldKey: string; value: unkn
   }
 
   return (
-    <div className="flex items-start justify-between gap-4 py-1">
+    <div className={cn('flex items-start justify-between gap-4 py-1', highlight)}>
       <label className="text-xs font-medium text-muted-foreground shrink-0">{label}</label>
       <span className="max-w-[70%] text-sm text-right whitespace-pre-wrap break-words">{text}</span>
     </div>
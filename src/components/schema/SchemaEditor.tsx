@@ -2,13 +2,15 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useSchemaStore } from '@/stores/schemaStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useLlmBarStore } from '@/stores/llmBarStore';
-import type { SchemaField, SchemaPreset } from '@/types';
+import { createRunController } from '@/stores/consoleStreamStore';
+import type { ConstraintCondition, SchemaConstraint, SchemaField, SchemaPreset } from '@/types';
 import { FieldEditor } from './FieldEditor';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
+import { Select } from '@/components/ui/Select';
 import {
   Dialog,
   DialogContent,
@@ -18,11 +20,15 @@ import {
   DialogFooter,
 } from '@/components/ui/Dialog';
 import { toast } from '@/stores/toastStore';
-import { Plus, Copy, Trash2, FileText, Pencil, Layers, BookOpen, Settings, Sparkles, Loader2, CheckCircle2, RotateCcw, WandSparkles, Clock3, GitBranch, Download, Upload } from 'lucide-react';
-import { cn, generateId, truncate } from '@/lib/utils';
+import { Plus, Copy, Trash2, FileText, Pencil, Layers, BookOpen, ListChecks, Settings, Sparkles, Loader2, CheckCircle2, RotateCcw, WandSparkles, Clock3, GitBranch, Download, Upload } from 'lucide-react';
+import { cn, generateId, isAbortError, truncate } from '@/lib/utils';
 import { generateSchemaDraft, parseSchemaDraft, refineSchemaDraft, suggestSchemaTransforms, type SchemaDraft } from '@/services/schemaAssistant';
-import { FIXED_MODEL_NAME, FIXED_PROVIDER_NAME, FIXED_TEMPERATURE } from '@/services/types';
+import { PROVIDER_CONFIGS, getModelName } from '@/services/types';
 import { resolveProfileDisplayName } from '@/lib/profileIdentity';
+import { planGenerationOrder, type GenerationPlan } from '@/lib/generationPlanner';
+import { CONSTRAINT_OPERATORS, constraintPaths, describeConstraint } from '@/lib/constraints';
+import { fieldAtPath } from '@/lib/fieldPaths';
+import { flattenFieldOptions, type FieldOption } from '@/lib/workspace';
 
 interface SchemaAiRevision {
   id: string;
@@ -93,7 +99,7 @@ function fieldPreview(field: SchemaField | undefined): string {
   return JSON.stringify(field);
 }
 
-type EditorTab = 'fields' | 'examples' | 'settings';
+type EditorTab = 'fields' | 'examples' | 'rules' | 'settings';
 
 interface SchemaEditorProps {
   isActive?: boolean;
@@ -111,7 +117,9 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
     renamePreset,
     savePreset,
   } = useSchemaStore();
-  const { hasApiKey, getApiKey, settings, setDeleteWarningSuppressed } = useSettingsStore();
+  const { hasApiKey, getLLMTarget, settings, setDeleteWarningSuppressed } = useSettingsStore();
+  const providerConfig = PROVIDER_CONFIGS[settings.provider];
+  const draftingTarget = getLLMTarget('schemaDrafting');
   const { setConfig, resetConfig } = useLlmBarStore();
 
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
@@ -198,6 +206,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       specificity: draft.specificity,
       generationOrder: draft.generationOrder,
       examples: draft.examples,
+      constraints: draft.constraints,
       updatedAt: new Date().toISOString(),
     };
     await savePreset(importedPreset);
@@ -300,10 +309,12 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
   const aiHasKey = hasApiKey();
   const aiCommandRef = useRef<HTMLTextAreaElement | null>(null);
   const importFileRef = useRef<HTMLInputElement | null>(null);
+  const inlineAbortRef = useRef<AbortController | null>(null);
 
   const tabs: { id: EditorTab; label: string; icon: typeof Layers }[] = [
     { id: 'fields', label: 'Fields', icon: Layers },
     { id: 'examples', label: 'Examples', icon: BookOpen },
+    { id: 'rules', label: 'Rules', icon: ListChecks },
     { id: 'settings', label: 'Settings', icon: Settings },
   ];
 
@@ -378,20 +389,23 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       return;
     }
 
+    const { controller, release } = createRunController();
     setAiSuggesting(true);
     try {
       const transforms = await suggestSchemaTransforms({
-        apiKey: getApiKey(),
+        target: getLLMTarget('transformSuggestions'),
         draft,
         selectedFieldKeys,
+        signal: controller.signal,
       });
       setAiTransforms(transforms.length > 0 ? transforms : DEFAULT_SCHEMA_TRANSFORMS);
     } catch {
       setAiTransforms(DEFAULT_SCHEMA_TRANSFORMS);
     } finally {
+      release();
       setAiSuggesting(false);
     }
-  }, [aiHasKey, getApiKey]);
+  }, [aiHasKey, getLLMTarget]);
 
   useEffect(() => {
     if (!aiDraft) return;
@@ -404,10 +418,11 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       return;
     }
     if (!aiHasKey) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerConfig.name} API key in Settings.`, 'error');
       return;
     }
 
+    const { controller, release } = createRunController();
     setAiGenerating(true);
     setAiPipelineStarted(true);
     setAiPipelineStage(0);
@@ -416,7 +431,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
     try {
       let streamed = false;
       const draft = await generateSchemaDraft({
-        apiKey: getApiKey(),
+        target: getLLMTarget('schemaDrafting'),
         goal: aiGoal.trim(),
         onToken: (token) => {
           void token;
@@ -425,6 +440,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
             setAiPipelineStage(1);
           }
         },
+        signal: controller.signal,
       });
       setAiPipelineStage(2);
       setAiDraft(cloneDraft(draft));
@@ -444,12 +460,18 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       setAiPipelineStage(3);
       toast('Draft generated', 'Review the output and refine if needed before saving.', 'success');
     } catch (error) {
+      if (isAbortError(error)) {
+        setAiPipelineStarted(false);
+        toast('Schema generation stopped', 'The request was cancelled.');
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Failed to generate schema draft.';
       toast('Schema generation failed', message, 'error');
     } finally {
+      release();
       setAiGenerating(false);
     }
-  }, [aiGoal, aiHasKey, clearAiCandidate, getApiKey]);
+  }, [aiGoal, aiHasKey, providerConfig.name, clearAiCandidate, getLLMTarget]);
 
   const handleAiRefine = useCallback(async (instructionOverride?: string) => {
     if (!aiDraft) return;
@@ -459,10 +481,11 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       return;
     }
     if (!aiHasKey) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerConfig.name} API key in Settings.`, 'error');
       return;
     }
 
+    const { controller, release } = createRunController();
     setAiGenerating(true);
     setAiPipelineStarted(true);
     setAiPipelineStage(0);
@@ -470,7 +493,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
     try {
       let streamed = false;
       const updated = await refineSchemaDraft({
-        apiKey: getApiKey(),
+        target: getLLMTarget('schemaDrafting'),
         draft: aiDraft,
         instruction,
         selectedFieldKeys: aiSelectedFields,
@@ -482,6 +505,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
             setAiPipelineStage(2);
           }
         },
+        signal: controller.signal,
       });
       setAiPipelineStage(3);
       const changedKeys = changedFieldKeys(aiDraft, updated);
@@ -491,12 +515,18 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       setAiRefinePrompt(instruction);
       toast('Review changes', changedKeys.length > 0 ? 'Accept or reject generated diff.' : 'No field-level changes detected.');
     } catch (error) {
+      if (isAbortError(error)) {
+        setAiPipelineStarted(false);
+        toast('Schema refinement stopped', 'The draft was left unchanged.');
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Failed to refine schema draft.';
       toast('Schema refinement failed', message, 'error');
     } finally {
+      release();
       setAiGenerating(false);
     }
-  }, [aiDraft, aiRefinePrompt, aiSelectedFields, aiLockedFields, aiHasKey, clearAiCandidate, getApiKey]);
+  }, [aiDraft, aiRefinePrompt, aiSelectedFields, aiLockedFields, aiHasKey, providerConfig.name, clearAiCandidate, getLLMTarget]);
 
   const handleAiAcceptAll = useCallback(() => {
     if (!aiCandidateDraft) return;
@@ -630,20 +660,23 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       setInlineTransforms(DEFAULT_SCHEMA_TRANSFORMS);
       return;
     }
+    const { controller, release } = createRunController();
     setInlineSuggesting(true);
     try {
       const transforms = await suggestSchemaTransforms({
-        apiKey: getApiKey(),
+        target: getLLMTarget('transformSuggestions'),
         draft: toSchemaDraft(activePreset),
         selectedFieldKeys: inlineSelectedFields,
+        signal: controller.signal,
       });
       setInlineTransforms(transforms.length > 0 ? transforms : DEFAULT_SCHEMA_TRANSFORMS);
     } catch {
       setInlineTransforms(DEFAULT_SCHEMA_TRANSFORMS);
     } finally {
+      release();
       setInlineSuggesting(false);
     }
-  }, [activePreset, aiHasKey, getApiKey, inlineSelectedFields]);
+  }, [activePreset, aiHasKey, getLLMTarget, inlineSelectedFields]);
 
   useEffect(() => {
     setInlinePrompt('');
@@ -656,7 +689,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
   const handleInlineRefine = useCallback(async (instructionOverride?: string) => {
     if (!activePreset) return;
     if (!aiHasKey) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerConfig.name} API key in Settings.`, 'error');
       return;
     }
     const instruction = (instructionOverride ?? inlinePrompt).trim();
@@ -666,17 +699,20 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
     }
 
     const baseDraft = toSchemaDraft(activePreset);
+    const { controller, release } = createRunController();
+    inlineAbortRef.current = controller;
     setInlineGenerating(true);
     clearInlineCandidate();
 
     try {
       const updated = await refineSchemaDraft({
-        apiKey: getApiKey(),
+        target: getLLMTarget('schemaDrafting'),
         draft: baseDraft,
         instruction,
         selectedFieldKeys: inlineSelectedFields,
         lockedFieldKeys: inlineLockedFields,
         onToken: () => {},
+        signal: controller.signal,
       });
       const changed = changedFieldKeys(baseDraft, updated);
       setInlineCandidateDraft(updated);
@@ -685,16 +721,23 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       setInlinePrompt(instruction);
       toast('Review schema diff', changed.length > 0 ? 'Accept or reject regenerated field changes.' : 'No field-level changes detected.');
     } catch (error) {
+      if (isAbortError(error)) {
+        toast('Schema refinement stopped', 'The schema was left unchanged.');
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Schema refinement failed.';
       toast('Schema refinement failed', message, 'error');
     } finally {
+      release();
+      inlineAbortRef.current = null;
       setInlineGenerating(false);
     }
   }, [
     activePreset,
     aiHasKey,
+    providerConfig.name,
     inlinePrompt,
-    getApiKey,
+    getLLMTarget,
     inlineSelectedFields,
     inlineLockedFields,
     clearInlineCandidate,
@@ -747,18 +790,21 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       return;
     }
     if (!aiHasKey) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerConfig.name} API key in Settings.`, 'error');
       return;
     }
 
+    const { controller, release } = createRunController();
+    inlineAbortRef.current = controller;
     setInlineGenerating(true);
     clearInlineCandidate();
 
     try {
       const draft = await generateSchemaDraft({
-        apiKey: getApiKey(),
+        target: getLLMTarget('schemaDrafting'),
         goal: trimmed,
         onToken: () => {},
+        signal: controller.signal,
       });
       const base = await createPreset(draft.name, draft.description);
       const generatedPreset: SchemaPreset = {
@@ -777,12 +823,18 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       setInlinePrompt(trimmed);
       toast('Schema created', `"${generatedPreset.name}" is ready to edit.`, 'success');
     } catch (error) {
+      if (isAbortError(error)) {
+        toast('Schema creation stopped', 'The request was cancelled.');
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Schema creation failed.';
       toast('Schema creation failed', message, 'error');
     } finally {
+      release();
+      inlineAbortRef.current = null;
       setInlineGenerating(false);
     }
-  }, [aiHasKey, clearInlineCandidate, createPreset, getApiKey, savePreset, setActivePreset]);
+  }, [aiHasKey, providerConfig.name, clearInlineCandidate, createPreset, getLLMTarget, savePreset, setActivePreset]);
 
   const handleRefineFromCommand = useCallback(async (instruction: string) => {
     const trimmed = instruction.trim();
@@ -794,13 +846,17 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
     await handleInlineRefine(trimmed);
   }, [handleInlineRefine]);
 
+  const handleInlineCancel = useCallback(() => {
+    inlineAbortRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     if (!isActive) return;
 
     if (!aiHasKey) {
       setConfig({
         chips: [{ id: 'view', label: 'Schemas' }],
-        placeholder: 'Add your OpenAI key in Settings to run schema commands.',
+        placeholder: `Add your ${providerConfig.name} key in Settings to run schema commands.`,
         submitLabel: 'Run',
         disabled: true,
         disabledReason: 'Open Settings and add an API key.',
@@ -822,6 +878,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
         disabledReason: undefined,
         busy: inlineGenerating,
         onSubmit: handleCreateFromCommand,
+        onCancel: handleInlineCancel,
       });
       return;
     }
@@ -840,12 +897,15 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
       disabledReason: undefined,
       busy: inlineGenerating,
       onSubmit: handleRefineFromCommand,
+      onCancel: handleInlineCancel,
     });
   }, [
     activePreset,
     aiHasKey,
+    providerConfig.name,
     handleCreateFromCommand,
     handleRefineFromCommand,
+    handleInlineCancel,
     isActive,
     inlineGenerating,
     inlineLockedFields.length,
@@ -1177,6 +1237,11 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
               <ExamplesEditor preset={activePreset} onSave={savePreset} />
             )}
 
+            {/* Rules tab */}
+            {activeTab === 'rules' && (
+              <ConstraintsEditor key={activePreset.id} preset={activePreset} onSave={savePreset} />
+            )}
+
             {/* Settings tab */}
             {activeTab === 'settings' && (
               <SchemaSettingsEditor preset={activePreset} onSave={savePreset} />
@@ -1281,7 +1346,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
                     disabled={aiGenerating}
                   />
                   <div className="text-xs text-muted-foreground">
-                    Using <span className="font-medium">{FIXED_PROVIDER_NAME}</span> · <span className="font-mono">{FIXED_MODEL_NAME}</span> · <span className="font-mono">T:{FIXED_TEMPERATURE.toFixed(2)}</span>
+                    Using <span className="font-medium">{providerConfig.name}</span> · <span className="font-mono">{getModelName(providerConfig.id, draftingTarget.model)}</span> · <span className="font-mono">T:{draftingTarget.temperature.toFixed(2)}</span>
                   </div>
                 </CardContent>
               </Card>
@@ -1571,7 +1636,7 @@ export function SchemaEditor({ isActive = true }: SchemaEditorProps) {
 
             {!aiHasKey && (
               <p className="text-xs text-amber-400">
-                No API key configured for OpenAI. Add one in Settings.
+                No API key configured for {providerConfig.name}. Add one in Settings.
               </p>
             )}
           </div>
@@ -1736,6 +1801,192 @@ function ExamplesEditor({ preset, onSave }: { preset: SchemaPreset; onSave: (p:
   );
 }
 
+// ============================================================
+// Constraints Editor
+// ============================================================
+
+const EMPTY_CONDITION: ConstraintCondition = { path: '', operator: 'equals', value: '' };
+
+function ConditionInputs({
+  fields,
+  options,
+  condition,
+  rule,
+  onChange,
+}: {
+  fields: SchemaField[];
+  options: FieldOption[];
+  condition: ConstraintCondition;
+  /** Phrase the operator as a requirement ("must be") instead of a test ("is") */
+  rule?: boolean;
+  onChange: (condition: ConstraintCondition) => void;
+}) {
+  const field = condition.path ? fieldAtPath(fields, condition.path) : null;
+  const choices = field?.levels ?? field?.options ?? (field?.type === 'boolean' ? ['true', 'false'] : null);
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <Select
+        value={condition.path}
+        onValueChange={(path) => onChange({ ...condition, path, value: '' })}
+        options={options.map((option) => ({ value: option.path, label: option.label }))}
+        placeholder="Field"
+      />
+      <Select
+        value={condition.operator}
+        onValueChange={(operator) => onChange({ ...condition, operator: operator as ConstraintCondition['operator'] })}
+        options={CONSTRAINT_OPERATORS.map((entry) => ({ value: entry.value, label: rule ? entry.rule : entry.label }))}
+      />
+      {choices ? (
+        <Select
+          value={condition.value}
+          onValueChange={(value) => onChange({ ...condition, value })}
+          options={choices.map((choice) => ({ value: choice, label: choice }))}
+          placeholder="Value"
+        />
+      ) : (
+        <Input
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          placeholder="Value"
+          className="h-9 text-sm"
+        />
+      )}
+    </div>
+  );
+}
+
+function ConstraintsEditor({ preset, onSave }: { preset: SchemaPreset; onSave: (p: SchemaPreset) => Promise<void> }) {
+  const constraints = preset.constraints ?? [];
+  const fieldOptions = useMemo(() => flattenFieldOptions(preset.fields), [preset.fields]);
+  const [kind, setKind] = useState<SchemaConstraint['kind']>('implies');
+  const [when, setWhen] = useState<ConstraintCondition>(EMPTY_CONDITION);
+  const [then, setThen] = useState<ConstraintCondition>({ ...EMPTY_CONDITION, operator: 'notEquals' });
+  const [pronounsPath, setPronounsPath] = useState(
+    () => fieldOptions.find((option) => option.path.includes('pronoun'))?.path ?? ''
+  );
+  const [textPath, setTextPath] = useState(
+    () => fieldOptions.find((option) => option.path === 'description')?.path ?? ''
+  );
+
+  const isComplete = kind === 'implies'
+    ? !!(when.path && when.value.trim() && then.path && then.value.trim())
+    : !!(pronounsPath && textPath && pronounsPath !== textPath);
+
+  const addConstraint = () => {
+    if (!isComplete) return;
+    const constraint: SchemaConstraint = kind === 'implies'
+      ? { id: generateId(), kind, when: { ...when, value: when.value.trim() }, then: { ...then, value: then.value.trim() } }
+      : { id: generateId(), kind, pronounsPath, textPath };
+    onSave({ ...preset, constraints: [...constraints, constraint] });
+    setWhen(EMPTY_CONDITION);
+    setThen({ ...EMPTY_CONDITION, operator: 'notEquals' });
+    toast('Rule added', describeConstraint(constraint), 'success');
+  };
+
+  const removeConstraint = (id: string) => {
+    const remaining = constraints.filter((constraint) => constraint.id !== id);
+    onSave({ ...preset, constraints: remaining.length > 0 ? remaining : undefined });
+    toast('Rule removed', '', 'default');
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Field Rules</CardTitle>
+          <CardDescription>
+            Hard rules between fields. Generation prompts include every rule that touches the fields being written, and each profile's confidence report flags any rule it breaks.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {constraints.length > 0 && (
+            <div className="space-y-2">
+              {constraints.map((constraint) => {
+                const missing = constraintPaths(constraint).filter((path) => !fieldAtPath(preset.fields, path));
+                return (
+                  <div key={constraint.id} className="flex items-center justify-between gap-2 rounded-md border border-border p-3">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm">{describeConstraint(constraint)}</p>
+                      {missing.length > 0 && (
+                        <p className="text-[11px] text-amber-400">
+                          No field at {missing.join(', ')}. The rule is skipped until the field exists.
+                        </p>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => removeConstraint(constraint.id)} className="text-muted-foreground hover:text-destructive">
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="flex gap-2">
+              {([
+                { id: 'implies', label: 'If / then' },
+                { id: 'pronounAgreement', label: 'Pronoun agreement' },
+              ] as const).map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setKind(option.id)}
+                  className={cn(
+                    'px-3 py-1.5 rounded-md text-xs font-medium transition-colors cursor-pointer',
+                    kind === option.id
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {kind === 'implies' ? (
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-muted-foreground">If</label>
+                <ConditionInputs fields={preset.fields} options={fieldOptions} condition={when} onChange={setWhen} />
+                <label className="text-xs font-medium text-muted-foreground">Then</label>
+                <ConditionInputs fields={preset.fields} options={fieldOptions} condition={then} rule onChange={setThen} />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-muted-foreground">Pronouns field</label>
+                  <Select
+                    value={pronounsPath}
+                    onValueChange={setPronounsPath}
+                    options={fieldOptions.map((option) => ({ value: option.path, label: option.label }))}
+                    placeholder="Field"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-muted-foreground">Text to check</label>
+                  <Select
+                    value={textPath}
+                    onValueChange={setTextPath}
+                    options={fieldOptions.map((option) => ({ value: option.path, label: option.label }))}
+                    placeholder="Field"
+                  />
+                </div>
+                <p className="col-span-2 text-[11px] text-muted-foreground">
+                  Flags text that refers to the character with he or she when the pronouns say otherwise. Only he, she and they are checked.
+                </p>
+              </div>
+            )}
+
+            <Button variant="secondary" size="sm" onClick={addConstraint} disabled={!isComplete}>
+              <Plus className="h-3.5 w-3.5 mr-1" /> Add Rule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 // ============================================================
 // Schema Settings Editor
 // ============================================================
@@ -1746,19 +1997,33 @@ function SchemaSettingsEditor({ preset, onSave }: { preset: SchemaPreset; onSave
   const [orderText, setOrderText] = useState(
     currentOrder.map((pass) => pass.join(', ')).join('\n')
   );
+  const [plan, setPlan] = useState<GenerationPlan | null>(null);
 
   const handleSpecificityChange = (specificity: SchemaPreset['specificity']) => {
     onSave({ ...preset, specificity });
   };
 
+  const saveOrder = (order: string[][]) => {
+    onSave({ ...preset, generationOrder: order.length > 0 ? order : undefined });
+    toast('Generation order saved', order.length > 1 ? `${order.length}-pass generation configured.` : 'Single-pass mode.', 'success');
+  };
+
   const handleOrderSave = () => {
     const lines = orderText.split('\n').filter((l) => l.trim());
     const order = lines.map((line) =>
       line.split(',').map((k) => k.trim()).filter(Boolean)
     ).filter((pass) => pass.length > 0);
 
-    onSave({ ...preset, generationOrder: order.length > 0 ? order : undefined });
-    toast('Generation order saved', order.length > 1 ? `${order.length}-pass generation configured.` : 'Single-pass mode.', 'success');
+    saveOrder(order);
+  };
+
+  const handleAcceptPlan = () => {
+    if (!plan || plan.passes.length === 0) return;
+    const order = plan.passes.map((pass) => pass.keys);
+    setOrderText(order.map((pass) => pass.join(', ')).join('\n'));
+    // A single planned pass means multi-pass buys nothing; save it as single-pass.
+    saveOrder(order.length > 1 ? order : []);
+    setPlan(null);
   };
 
   return (
@@ -1801,8 +2066,9 @@ function SchemaSettingsEditor({ preset, onSave }: { preset: SchemaPreset; onSave
         <CardHeader>
           <CardTitle>Generation Order (Multi-Pass)</CardTitle>
           <CardDescription>
-            Define how fields are grouped into generation passes. Each line is one LLM call. Later passes receive all output from earlier passes as context, enabling consistency.
-            Leave empty for single-pass generation.
+            Define how fields are grouped into generation passes. Each line is one LLM call. Later passes receive output from earlier passes as context, enabling consistency; when fields declare dependencies, passes that do not depend on each other run in parallel.
+            Use dot paths (e.g. <span className="font-mono">stats.strength</span>) to split an object's fields across passes.
+            Leave empty for single-pass generation, or plan the order from each field's hint and dependencies.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-3">
@@ -1816,10 +2082,59 @@ function SchemaSettingsEditor({ preset, onSave }: { preset: SchemaPreset; onSave
             <div className="text-xs text-muted-foreground">
               Available keys: <span className="font-mono">{fieldKeys.join(', ')}</span>
             </div>
-            <Button variant="secondary" size="sm" onClick={handleOrderSave}>
-              Save Order
-            </Button>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button variant="outline" size="sm" onClick={() => setPlan(planGenerationOrder(preset.fields))}>
+                <WandSparkles className="h-3.5 w-3.5" />
+                Plan from dependencies
+              </Button>
+              <Button variant="secondary" size="sm" onClick={handleOrderSave}>
+                Save Order
+              </Button>
+            </div>
           </div>
+          {plan && (
+            <div className="space-y-3 rounded-md border border-border p-3">
+              <div>
+                <p className="text-xs font-medium">Proposed order</p>
+                <p className="text-[11px] text-muted-foreground">
+                  Built from each field's generation hint (identity, then scales, then narrative, then behavioral and
+                  calibration). A field moves to a pass after the fields it depends on.
+                </p>
+              </div>
+              {plan.issues.length > 0 && (
+                <div className="space-y-1">
+                  {plan.issues.map((issue, i) => (
+                    <p
+                      key={i}
+                      className={cn('text-xs', issue.severity === 'error' ? 'text-destructive' : 'text-amber-400')}
+                    >
+                      {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {plan.passes.map((pass, i) => (
+                <div key={i} className="space-y-1">
+                  <div className="flex items-center gap-2 text-xs">
+                    <Badge variant="outline" className="text-[10px] shrink-0">Pass {i + 1}</Badge>
+                    <span className="font-mono">{pass.keys.join(', ')}</span>
+                  </div>
+                  <p className="text-[11px] text-muted-foreground">{pass.summary}</p>
+                  {pass.notes.map((note) => (
+                    <p key={note} className="text-[11px] text-muted-foreground pl-3">• {note}</p>
+                  ))}
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setPlan(null)}>
+                  Dismiss
+                </Button>
+                <Button size="sm" onClick={handleAcceptPlan} disabled={plan.passes.length === 0}>
+                  Accept Order
+                </Button>
+              </div>
+            </div>
+          )}
           {currentOrder.length > 1 && (
             <div className="space-y-1">
               <label className="text-xs font-medium text-muted-foreground">Current passes:</label>
@@ -1,12 +1,15 @@
 import { useState } from 'react';
 import { useSettingsStore } from '@/stores/settingsStore';
+import { useUsageStore } from '@/stores/usageStore';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
 import { toast } from '@/stores/toastStore';
 import { Eye, EyeOff, Sun, Moon, Monitor } from 'lucide-react';
-import type { AppSettings } from '@/types';
-import { FIXED_MODEL_NAME, FIXED_PROVIDER_NAME, FIXED_TEMPERATURE } from '@/services/types';
+import { describeUsage, summarizeUsage } from '@/lib/usage';
+import type { AppSettings, LLMProvider, LLMTask, MockProviderSettings } from '@/types';
+import { LLM_TASKS, PROVIDER_CONFIGS, getModelName, isLLMProvider } from '@/services/types';
 
 const themeOptions: { value: AppSettings['theme']; label: string; icon: typeof Sun }[] = [
   { value: 'light', label: 'Light', icon: Sun },
@@ -14,18 +17,181 @@ const themeOptions: { value: AppSettings['theme']; label: string; icon: typeof S
   { value: 'system', label: 'System', icon: Monitor },
 ];
 
+const keyPlaceholders: Record<LLMProvider, string> = {
+  openai: 'sk-...',
+  anthropic: 'sk-ant-...',
+  gemini: 'AIza...',
+  local: 'Optional',
+  mock: '',
+};
+
+const providerOptions = Object.values(PROVIDER_CONFIGS).map((config) => ({
+  value: config.id,
+  label: config.name,
+}));
+
+type PriceDraft = { input: string; output: string };
+
+type MockDraft = Record<keyof MockProviderSettings, string>;
+
+const mockFields: { key: keyof MockProviderSettings; label: string; min: number; max?: number; step: number }[] = [
+  { key: 'seed', label: 'Seed', min: 0, step: 1 },
+  { key: 'latencyMs', label: 'Latency (ms)', min: 0, step: 50 },
+  { key: 'tokenDelayMs', label: 'Token delay (ms)', min: 0, step: 1 },
+  { key: 'errorRate', label: 'Error rate', min: 0, max: 1, step: 0.05 },
+  { key: 'malformedRate', label: 'Malformed JSON rate', min: 0, max: 1, step: 0.05 },
+];
+
+function toMockDraft(mock: MockProviderSettings): MockDraft {
+  return {
+    seed: String(mock.seed),
+    latencyMs: String(mock.latencyMs),
+    tokenDelayMs: String(mock.tokenDelayMs),
+    errorRate: String(mock.errorRate),
+    malformedRate: String(mock.malformedRate),
+  };
+}
+
+function toPriceDrafts(prices: AppSettings['prices']): Record<string, PriceDraft> {
+  const drafts: Record<string, PriceDraft> = {};
+  for (const [model, price] of Object.entries(prices)) {
+    drafts[model] = { input: String(price.input), output: String(price.output) };
+  }
+  return drafts;
+}
+
+/** Known provider models, configured local models and anything already priced. */
+function listPricedModels(settings: AppSettings): string[] {
+  const models = [
+    ...Object.values(PROVIDER_CONFIGS).flatMap((config) => config.models.map((model) => model.id)),
+    settings.local.model.trim(),
+    ...Object.values(settings.tasks).flatMap((task) => Object.values(task.models).map((model) => (model ?? '').trim())),
+    ...Object.keys(settings.prices),
+  ];
+  return Array.from(new Set(models.filter(Boolean)));
+}
+
+function modelLabel(modelId: string): string {
+  const config = Object.values(PROVIDER_CONFIGS).find((entry) => entry.models.some((model) => model.id === modelId));
+  return config ? `${config.name} · ${getModelName(config.id, modelId)}` : modelId;
+}
+
+/** Drafts show each task's model for `provider` only. */
+function toTaskDrafts(tasks: AppSettings['tasks'], provider: LLMProvider): Record<LLMTask, { model: string; temperature: string }> {
+  const drafts = {} as Record<LLMTask, { model: string; temperature: string }>;
+  for (const task of LLM_TASKS) {
+    drafts[task.id] = {
+      model: tasks[task.id].models[provider] ?? '',
+      temperature: String(tasks[task.id].temperature),
+    };
+  }
+  return drafts;
+}
+
 export function SettingsPage() {
-  const { settings, setApiKey, setTheme } = useSettingsStore();
+  const { settings, saveSettings, setApiKey, setProvider, setTaskSettings, setTheme, getLLMTarget } = useSettingsStore();
   const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
-  const [openaiKeyInput, setOpenaiKeyInput] = useState(settings.apiKeys.openai);
+  const [keyInputs, setKeyInputs] = useState<Record<LLMProvider, string>>(settings.apiKeys);
+  const [localBaseUrlInput, setLocalBaseUrlInput] = useState(settings.local.baseUrl);
+  const [localModelInput, setLocalModelInput] = useState(settings.local.model);
+  const [mockDraft, setMockDraft] = useState(() => toMockDraft(settings.mock));
+  const [taskDrafts, setTaskDrafts] = useState(() => toTaskDrafts(settings.tasks, settings.provider));
+  const [priceDrafts, setPriceDrafts] = useState(() => toPriceDrafts(settings.prices));
+  const { session, calls, reset: resetUsage } = useUsageStore();
+
+  const providerConfig = PROVIDER_CONFIGS[settings.provider];
 
   const toggleVisible = (id: string) =>
     setVisibleKeys((prev) => ({ ...prev, [id]: !prev[id] }));
 
-  const handleSaveOpenAiKey = async () => {
-    const value = openaiKeyInput.trim();
-    await setApiKey(value);
-    toast('API key saved', 'OpenAI key has been updated.', 'success');
+  const handleSaveKey = async (provider: LLMProvider) => {
+    const value = keyInputs[provider].trim();
+    await setApiKey(provider, value);
+    toast('API key saved', `${PROVIDER_CONFIGS[provider].name} key has been updated.`, 'success');
+  };
+
+  const handleSaveLocal = async () => {
+    await saveSettings({
+      local: {
+        baseUrl: localBaseUrlInput.trim(),
+        model: localModelInput.trim(),
+      },
+    });
+    toast('Local endpoint saved', 'Base URL and model have been updated.', 'success');
+  };
+
+  const handleSaveMock = async () => {
+    const mock = { ...settings.mock };
+    for (const field of mockFields) {
+      const value = Number.parseFloat(mockDraft[field.key]);
+      if (!Number.isFinite(value) || value < field.min || (field.max !== undefined && value > field.max)) {
+        const range = field.max !== undefined ? `between ${field.min} and ${field.max}` : `at least ${field.min}`;
+        toast('Invalid mock setting', `${field.label} must be ${range}.`, 'error');
+        return;
+      }
+      mock[field.key] = field.step === 1 ? Math.round(value) : value;
+    }
+    await saveSettings({ mock });
+    toast('Mock provider saved', 'Seed and fault injection have been updated.', 'success');
+  };
+
+  const handleSaveTasks = async () => {
+    for (const task of LLM_TASKS) {
+      const draft = taskDrafts[task.id];
+      const temperature = Number.parseFloat(draft.temperature);
+      if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+        toast('Invalid temperature', `${task.name} temperature must be between 0 and 2.`, 'error');
+        return;
+      }
+    }
+    for (const task of LLM_TASKS) {
+      const draft = taskDrafts[task.id];
+      await setTaskSettings(task.id, {
+        models: { ...settings.tasks[task.id].models, [settings.provider]: draft.model.trim() },
+        temperature: Number.parseFloat(draft.temperature),
+      });
+    }
+    toast('Task models saved', 'Each task now uses its own model and temperature.', 'success');
+  };
+
+  const handleSavePrices = async () => {
+    const prices: AppSettings['prices'] = {};
+    for (const model of listPricedModels(settings)) {
+      const draft = priceDrafts[model];
+      if (!draft || (!draft.input.trim() && !draft.output.trim())) continue;
+      const input = Number.parseFloat(draft.input);
+      const output = Number.parseFloat(draft.output);
+      if (!Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) {
+        toast('Invalid price', `${modelLabel(model)} needs non-negative input and output prices.`, 'error');
+        return;
+      }
+      prices[model] = { input, output };
+    }
+    await saveSettings({ prices });
+    toast('Prices saved', 'Cost estimates now use the updated table.', 'success');
+  };
+
+  const updatePriceDraft = (model: string, patch: Partial<PriceDraft>) =>
+    setPriceDrafts((prev) => ({ ...prev, [model]: { ...(prev[model] ?? { input: '', output: '' }), ...patch } }));
+
+  const sessionSummary = summarizeUsage(session, settings.prices);
+
+  const updateTaskDraft = (task: LLMTask, patch: Partial<{ model: string; temperature: string }>) =>
+    setTaskDrafts((prev) => ({ ...prev, [task]: { ...prev[task], ...patch } }));
+
+  const taskModelOptions = [
+    {
+      value: '',
+      label: `Provider default (${getModelName(providerConfig.id, providerConfig.defaultModel) || 'none'})`,
+    },
+    ...providerConfig.models.map((model) => ({ value: model.id, label: model.name })),
+  ];
+
+  const handleProviderChange = async (value: string) => {
+    if (!isLLMProvider(value)) return;
+    await setProvider(value);
+    setTaskDrafts(toTaskDrafts(useSettingsStore.getState().settings.tasks, value));
+    toast('Provider updated', `Calls now route through ${PROVIDER_CONFIGS[value].name}.`, 'success');
   };
 
   return (
@@ -67,35 +233,76 @@ export function SettingsPage() {
         {/* API Keys */}
         <Card>
           <CardHeader>
-            <CardTitle>API Key</CardTitle>
+            <CardTitle>API Keys</CardTitle>
             <CardDescription>
-              Enter your OpenAI API key. It is stored locally on your machine.
+              Enter a key for each provider you use. Keys are stored locally on your machine.
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              <label className="text-sm font-medium">OpenAI</label>
-              <div className="flex gap-2">
-                <div className="relative flex-1">
-                  <Input
-                    type={visibleKeys.openai ? 'text' : 'password'}
-                    placeholder="sk-..."
-                    value={openaiKeyInput}
-                    onChange={(e) => setOpenaiKeyInput(e.target.value)}
-                    className="pr-10"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => toggleVisible('openai')}
-                    className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+          <CardContent className="space-y-4">
+            {Object.values(PROVIDER_CONFIGS).filter((config) => config.id !== 'mock').map((config) => (
+              <div key={config.id} className="space-y-2">
+                <label className="text-sm font-medium">{config.name}</label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Input
+                      type={visibleKeys[config.id] ? 'text' : 'password'}
+                      placeholder={keyPlaceholders[config.id]}
+                      value={keyInputs[config.id]}
+                      onChange={(e) => setKeyInputs((prev) => ({ ...prev, [config.id]: e.target.value }))}
+                      className="pr-10"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => toggleVisible(config.id)}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+                    >
+                      {visibleKeys[config.id] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleSaveKey(config.id)}
+                    className="shrink-0"
                   >
-                    {visibleKeys.openai ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </button>
+                    Save
+                  </Button>
                 </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Local endpoint */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Local Endpoint</CardTitle>
+            <CardDescription>
+              Point Soulkit at an OpenAI-compatible server such as Ollama, llama.cpp or LM Studio.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Base URL</label>
+              <Input
+                placeholder="http://localhost:11434/v1"
+                value={localBaseUrlInput}
+                onChange={(e) => setLocalBaseUrlInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Model</label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="llama3.1:8b"
+                  value={localModelInput}
+                  onChange={(e) => setLocalModelInput(e.target.value)}
+                  className="flex-1"
+                />
                 <Button
                   variant="secondary"
                   size="sm"
-                  onClick={handleSaveOpenAiKey}
+                  onClick={handleSaveLocal}
                   className="shrink-0"
                 >
                   Save
@@ -105,18 +312,183 @@ export function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Mock provider */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Mock Provider</CardTitle>
+            <CardDescription>
+              Offline provider that streams seeded, schema-conformant JSON. Use it to exercise Studio, refine and chat without a key.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {mockFields.map((field) => (
+                <div key={field.key} className="space-y-1.5">
+                  <label className="text-sm font-medium">{field.label}</label>
+                  <Input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={mockDraft[field.key]}
+                    onChange={(e) => setMockDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button variant="secondary" size="sm" onClick={handleSaveMock}>
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Runtime */}
         <Card>
           <CardHeader>
             <CardTitle>Model Runtime</CardTitle>
             <CardDescription>
-              Runtime is intentionally fixed for consistency.
+              Every profile, schema and chat call is routed through the selected provider.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Provider</label>
+              <Select
+                value={settings.provider}
+                onValueChange={handleProviderChange}
+                options={providerOptions}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Task models */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Task Models</CardTitle>
+            <CardDescription>
+              Choose a model and temperature for each kind of call. Each provider keeps its own model per task.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {LLM_TASKS.map((task) => {
+              const draft = taskDrafts[task.id];
+              const effective = getLLMTarget(task.id);
+              return (
+                <div key={task.id} className="space-y-1.5">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <label className="text-sm font-medium">{task.name}</label>
+                    <span className="text-[11px] text-muted-foreground font-mono">
+                      {getModelName(effective.provider, effective.model) || 'no model'} · T:{effective.temperature.toFixed(2)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{task.description}</p>
+                  <div className="flex gap-2">
+                    {settings.provider === 'local' ? (
+                      <Input
+                        placeholder={settings.local.model || 'Endpoint model'}
+                        value={draft.model}
+                        onChange={(e) => updateTaskDraft(task.id, { model: e.target.value })}
+                        className="flex-1"
+                      />
+                    ) : (
+                      <Select
+                        value={draft.model}
+                        onValueChange={(value) => updateTaskDraft(task.id, { model: value })}
+                        options={draft.model && !providerConfig.models.some((model) => model.id === draft.model)
+                          ? [...taskModelOptions, { value: draft.model, label: draft.model }]
+                          : taskModelOptions}
+                        className="flex-1"
+                      />
+                    )}
+                    <Input
+                      type="number"
+                      min={0}
+                      max={2}
+                      step={0.05}
+                      value={draft.temperature}
+                      onChange={(e) => updateTaskDraft(task.id, { temperature: e.target.value })}
+                      className="w-24 shrink-0"
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex justify-end">
+              <Button variant="secondary" size="sm" onClick={handleSaveTasks}>
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Usage */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Usage &amp; Cost</CardTitle>
+            <CardDescription>
+              Token usage reported by providers since the app started. Costs are estimates from the price table below.
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-2 text-sm">
-            <p><span className="font-medium">Provider:</span> {FIXED_PROVIDER_NAME}</p>
-            <p><span className="font-medium">Model:</span> {FIXED_MODEL_NAME}</p>
-            <p><span className="font-medium">Temperature:</span> {FIXED_TEMPERATURE.toFixed(2)}</p>
+          <CardContent className="space-y-4 text-sm">
+            {session.length === 0 ? (
+              <p className="text-muted-foreground">No usage recorded this session.</p>
+            ) : (
+              <div className="space-y-1.5">
+                {session.map((entry) => (
+                  <div key={`${entry.provider}:${entry.model}`} className="flex items-baseline justify-between gap-2">
+                    <span>{PROVIDER_CONFIGS[entry.provider].name} · {getModelName(entry.provider, entry.model)}</span>
+                    <span className="text-[11px] text-muted-foreground font-mono">
+                      {describeUsage(summarizeUsage([entry], settings.prices))}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex items-baseline justify-between gap-2 border-t border-border pt-1.5 font-medium">
+                  <span>Session total · {calls} call{calls === 1 ? '' : 's'}</span>
+                  <span className="text-[11px] font-mono">{describeUsage(sessionSummary)}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-baseline justify-between gap-2">
+                <label className="text-sm font-medium">Prices</label>
+                <span className="text-[11px] text-muted-foreground">USD per 1M tokens · input / output</span>
+              </div>
+              {listPricedModels(settings).map((model) => (
+                <div key={model} className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-xs">{modelLabel(model)}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="Input"
+                    value={priceDrafts[model]?.input ?? ''}
+                    onChange={(e) => updatePriceDraft(model, { input: e.target.value })}
+                    className="w-24 shrink-0"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="Output"
+                    value={priceDrafts[model]?.output ?? ''}
+                    onChange={(e) => updatePriceDraft(model, { output: e.target.value })}
+                    className="w-24 shrink-0"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={resetUsage} disabled={session.length === 0}>
+                Reset session
+              </Button>
+              <Button variant="secondary" size="sm" onClick={handleSavePrices}>
+                Save
+              </Button>
+            </div>
           </CardContent>
         </Card>
       </div>
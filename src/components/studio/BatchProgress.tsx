@@ -0,0 +1,123 @@
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { cn, truncate } from '@/lib/utils';
+import type { BatchItem, BatchItemStatus } from '@/types';
+import { Download, RotateCcw } from 'lucide-react';
+
+interface BatchProgressProps {
+  items: BatchItem[];
+  /** True while any batch item is generating; retries wait for it */
+  running: boolean;
+  onRetry: (index: number) => void;
+  onRetryFailed: () => void;
+  onOpenProfile: (profileId: string) => void;
+  /** Export completed profiles as CSV */
+  onExport: () => void;
+}
+
+const statusStyles: Record<BatchItemStatus, string> = {
+  queued: 'border-border text-muted-foreground',
+  running: 'border-primary bg-primary/10 text-foreground',
+  complete: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400',
+  error: 'border-destructive/50 bg-destructive/10 text-destructive',
+  cancelled: 'border-amber-500/50 bg-amber-500/10 text-amber-400',
+};
+
+function isRetryable(item: BatchItem): boolean {
+  return item.status === 'error' || item.status === 'cancelled';
+}
+
+function describeItem(item: BatchItem): string {
+  switch (item.status) {
+    case 'queued':
+      return 'Queued';
+    case 'running': {
+      const running = item.runningPasses ?? [];
+      if (running.length === 0) return `Pass ${item.pass + 1}/${item.totalPasses}`;
+      return `Pass ${running.map((index) => index + 1).join('+')}/${item.totalPasses}`;
+    }
+    case 'complete':
+      return 'Done';
+    case 'error':
+      return item.profileId ? `Failed · draft ${item.pass}/${item.totalPasses}` : 'Failed';
+    case 'cancelled':
+      return item.profileId ? `Draft ${item.pass}/${item.totalPasses}` : 'Stopped';
+  }
+}
+
+export function BatchProgress({ items, running, onRetry, onRetryFailed, onOpenProfile, onExport }: BatchProgressProps) {
+  const complete = items.filter((item) => item.status === 'complete').length;
+  const failed = items.filter(isRetryable);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm">Batch Progress</CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">
+              {complete}/{items.length} complete{failed.length > 0 ? ` · ${failed.length} need a retry` : ''}
+            </span>
+            <Button variant="outline" size="sm" className="h-7 text-[11px]" onClick={onExport} disabled={running || complete === 0}>
+              <Download className="h-3.5 w-3.5" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-5 sm:grid-cols-10 gap-1.5">
+          {items.map((item) => (
+            <button
+              key={item.index}
+              type="button"
+              title={item.error ?? item.brief}
+              disabled={!item.profileId}
+              onClick={() => item.profileId && onOpenProfile(item.profileId)}
+              className={cn(
+                'rounded-md border px-1.5 py-1 text-left transition-colors',
+                item.profileId ? 'cursor-pointer hover:opacity-80' : 'cursor-default',
+                statusStyles[item.status]
+              )}
+            >
+              <div className="text-[11px] font-semibold">#{item.index + 1}</div>
+              <div className="text-[10px] truncate">{describeItem(item)}</div>
+            </button>
+          ))}
+        </div>
+
+        {failed.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-xs font-medium">Failures</h4>
+              <Button variant="outline" size="sm" className="h-7 text-[11px]" onClick={onRetryFailed} disabled={running}>
+                <RotateCcw className="h-3.5 w-3.5" />
+                Retry all ({failed.length})
+              </Button>
+            </div>
+            <div className="space-y-1">
+              {failed.map((item) => (
+                <div key={item.index} className="flex items-center gap-2 rounded-md border border-border px-3 py-1.5 text-xs">
+                  <span className="font-medium shrink-0">#{item.index + 1}</span>
+                  <span className="flex-1 truncate text-muted-foreground">
+                    {item.error ?? 'Stopped before finishing.'}
+                    {item.brief && <span className="ml-2 opacity-70">{truncate(item.brief, 60)}</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-[11px] shrink-0"
+                    onClick={() => onRetry(item.index)}
+                    disabled={running}
+                  >
+                    Retry
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
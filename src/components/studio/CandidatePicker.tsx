@@ -0,0 +1,174 @@
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { ProfileViewer } from '@/components/profile/ProfileViewer';
+import { cn, truncate } from '@/lib/utils';
+import { getPathValue } from '@/lib/workspace';
+import type { GeneratedProfile, SchemaPreset } from '@/types';
+import { AlertCircle, Loader2, Save, X } from 'lucide-react';
+
+export interface CandidateView {
+  status: 'running' | 'complete' | 'error' | 'cancelled';
+  /** Unsaved preview, set once the candidate completes */
+  profile?: GeneratedProfile;
+  error?: string;
+}
+
+interface CandidatePickerProps {
+  schema: SchemaPreset;
+  candidates: CandidateView[];
+  /** Candidate index each top-level field is taken from */
+  picks: Record<string, number>;
+  running: boolean;
+  saving: boolean;
+  onPick: (path: string, candidateIndex: number) => void;
+  onPickAll: (candidateIndex: number) => void;
+  onSave: () => void;
+  onDiscard: () => void;
+}
+
+function previewValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' || typeof value === 'number') return truncate(String(value), 80);
+  if (Array.isArray(value) && value.every((item) => typeof item !== 'object')) return truncate(value.join(', '), 80);
+  return truncate(JSON.stringify(value), 80);
+}
+
+function describeStatus(candidate: CandidateView): string {
+  switch (candidate.status) {
+    case 'running':
+      return 'Generating';
+    case 'complete':
+      return 'Ready';
+    case 'error':
+      return 'Failed';
+    case 'cancelled':
+      return 'Stopped';
+  }
+}
+
+export function CandidatePicker({
+  schema,
+  candidates,
+  picks,
+  running,
+  saving,
+  onPick,
+  onPickAll,
+  onSave,
+  onDiscard,
+}: CandidatePickerProps) {
+  const ready = candidates.filter((candidate) => candidate.status === 'complete').length;
+  const canPick = !running && ready > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm">Candidates</CardTitle>
+          <span className="text-xs text-muted-foreground">
+            {ready}/{candidates.length} ready
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-1.5">
+          {candidates.map((candidate, index) => (
+            <Badge
+              key={index}
+              variant={candidate.status === 'complete' ? 'secondary' : 'outline'}
+              className={cn('gap-1 text-[10px]', candidate.status === 'error' && 'text-destructive')}
+              title={candidate.error}
+            >
+              {candidate.status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+              {candidate.status === 'error' && <AlertCircle className="h-3 w-3" />}
+              #{index + 1} {describeStatus(candidate)}
+            </Badge>
+          ))}
+        </div>
+
+        {canPick && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Pick the candidate each field comes from. The saved profile records every pick in its first revision.
+            </p>
+            <div className="overflow-x-auto rounded-md border border-border">
+              <table className="w-full text-[11px]">
+                <thead className="bg-secondary/50 text-muted-foreground">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">Field</th>
+                    {candidates.map((candidate, index) => (
+                      <th key={index} className="px-2 py-1 text-left font-medium whitespace-nowrap">
+                        <div className="flex items-center gap-1.5">
+                          #{index + 1}
+                          {candidate.status === 'complete' && (
+                            <button
+                              type="button"
+                              className="rounded px-1 text-[10px] text-primary hover:bg-primary/10"
+                              onClick={() => onPickAll(index)}
+                            >
+                              use all
+                            </button>
+                          )}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {schema.fields.map((field) => (
+                    <tr key={field.key} className="border-t border-border align-top">
+                      <td className="px-2 py-1.5 font-medium whitespace-nowrap">{field.label}</td>
+                      {candidates.map((candidate, index) => {
+                        if (!candidate.profile) {
+                          return <td key={index} className="px-2 py-1.5 text-muted-foreground">—</td>;
+                        }
+                        const picked = picks[field.key] === index;
+                        return (
+                          <td key={index} className="px-1 py-1">
+                            <button
+                              type="button"
+                              onClick={() => onPick(field.key, index)}
+                              className={cn(
+                                'w-full min-w-[120px] rounded border px-1.5 py-1 text-left break-words transition-colors',
+                                picked ? 'border-primary bg-primary/10' : 'border-transparent hover:bg-secondary/60'
+                              )}
+                            >
+                              {previewValue(getPathValue(candidate.profile.profile, field.key))}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={onSave} disabled={saving}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+                Save composed profile
+              </Button>
+              <Button size="sm" variant="ghost" onClick={onDiscard} disabled={saving}>
+                <X className="h-3.5 w-3.5" />
+                Discard
+              </Button>
+            </div>
+          </>
+        )}
+
+        {ready > 0 && (
+          <div className="flex gap-3 overflow-x-auto pb-1">
+            {candidates.map((candidate, index) => candidate.profile && (
+              <div key={index} className="min-w-[300px] flex-1 rounded-md border border-border p-3 space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">Candidate #{index + 1}</div>
+                <ProfileViewer profile={candidate.profile} hideActions />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import type { CastDiversitySummary } from '@/lib/diversity';
+
+interface CastDiversityCardProps {
+  summary: CastDiversitySummary;
+}
+
+export function CastDiversityCard({ summary }: CastDiversityCardProps) {
+  const { profileCount, duplicates, distributions } = summary;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm">Cast Diversity</CardTitle>
+          <span className="text-xs text-muted-foreground">{profileCount} profiles</span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1.5">
+          <h4 className="text-xs font-medium">Duplicate identity values</h4>
+          {duplicates.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No repeated names or archetypes.</p>
+          ) : (
+            <div className="flex flex-wrap gap-1.5">
+              {duplicates.map((duplicate) => (
+                <Badge key={`${duplicate.path}:${duplicate.value}`} variant="destructive" className="text-[10px]">
+                  {duplicate.label}: {duplicate.value} ×{duplicate.count}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {distributions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-medium">Scale and enum spread</h4>
+            <div className="space-y-2">
+              {distributions.map((distribution) => (
+                <div key={distribution.path} className="space-y-1">
+                  <div className="text-[11px] text-muted-foreground">{distribution.label}</div>
+                  <div className="flex h-2 overflow-hidden rounded-full bg-secondary">
+                    {distribution.counts.filter((entry) => entry.count > 0).map((entry, index) => (
+                      <div
+                        key={entry.value}
+                        className={index % 2 === 0 ? 'bg-primary' : 'bg-primary/50'}
+                        style={{ width: `${(entry.count / profileCount) * 100}%` }}
+                        title={`${entry.value}: ${entry.count}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-x-3 text-[10px] text-muted-foreground">
+                    {distribution.counts.map((entry) => (
+                      <span key={entry.value} className={entry.count === 0 ? 'opacity-50' : undefined}>
+                        {entry.value} {entry.count}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { Badge } from '@/components/ui/Badge';
+import { truncate } from '@/lib/utils';
+import type { CsvCastImport } from '@/lib/castCsv';
+import { AlertCircle } from 'lucide-react';
+
+interface CsvImportPreviewProps {
+  fileName: string;
+  result: CsvCastImport;
+  /** Most rows one batch may generate */
+  maxRows: number;
+}
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_ISSUES = 8;
+
+function formatSeed(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return truncate(String(value), 40);
+}
+
+export function CsvImportPreview({ fileName, result, maxRows }: CsvImportPreviewProps) {
+  const { columns, rows, issues } = result;
+  const mapped = columns.filter((column) => column.kind !== 'ignored');
+  const hasBrief = columns.some((column) => column.kind === 'brief');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="font-medium truncate">{fileName}</span>
+        <span className="text-muted-foreground shrink-0">
+          {rows.length} row{rows.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      <div className="space-y-1.5">
+        <h4 className="text-xs font-medium">Column mapping</h4>
+        <div className="flex flex-wrap gap-1.5">
+          {columns.map((column, index) => (
+            <Badge
+              key={`${column.header}:${index}`}
+              variant={column.kind === 'ignored' ? 'outline' : 'secondary'}
+              className={column.kind === 'ignored' ? 'text-[10px] opacity-60' : 'text-[10px]'}
+              title={column.note}
+            >
+              {column.header || '(blank)'}
+              {' → '}
+              {column.kind === 'brief' ? 'Brief' : column.kind === 'field' ? column.label : 'ignored'}
+            </Badge>
+          ))}
+        </div>
+        {!hasBrief && (
+          <p className="text-[11px] text-muted-foreground">
+            No <code>brief</code> column; every row uses the shared brief only.
+          </p>
+        )}
+      </div>
+
+      {rows.length > maxRows && (
+        <div className="flex items-center gap-2 text-xs text-amber-400 bg-amber-500/10 rounded-md p-2">
+          <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+          <span>A batch can generate at most {maxRows} profiles. Split the file to generate all {rows.length} rows.</span>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-medium text-amber-400">
+            {issues.length} cell{issues.length !== 1 ? 's' : ''} ignored; those fields are generated instead
+          </h4>
+          {issues.slice(0, PREVIEW_ISSUES).map((issue) => (
+            <div key={`${issue.row}:${issue.header}`} className="text-[11px] text-muted-foreground">
+              Row {issue.row}, {issue.header}: {issue.message}
+            </div>
+          ))}
+          {issues.length > PREVIEW_ISSUES && (
+            <div className="text-[11px] text-muted-foreground">+{issues.length - PREVIEW_ISSUES} more</div>
+          )}
+        </div>
+      )}
+
+      {rows.length > 0 && mapped.length > 0 && (
+        <div className="overflow-x-auto rounded-md border border-border">
+          <table className="w-full text-[11px]">
+            <thead className="bg-secondary/50 text-muted-foreground">
+              <tr>
+                <th className="px-2 py-1 text-left font-medium">Row</th>
+                {mapped.map((column) => (
+                  <th key={column.header} className="px-2 py-1 text-left font-medium whitespace-nowrap">
+                    {column.kind === 'brief' ? 'Brief' : column.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                <tr key={row.row} className="border-t border-border">
+                  <td className="px-2 py-1 text-muted-foreground">{row.row}</td>
+                  {mapped.map((column) => (
+                    <td key={column.header} className="px-2 py-1">
+                      {column.kind === 'brief' ? formatSeed(row.brief || undefined) : formatSeed(row.seeds[column.path!])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > PREVIEW_ROWS && (
+            <div className="border-t border-border px-2 py-1 text-[11px] text-muted-foreground">
+              +{rows.length - PREVIEW_ROWS} more rows
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
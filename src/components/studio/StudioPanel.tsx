@@ -1,31 +1,214 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useSchemaStore } from '@/stores/schemaStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { useProfileStore } from '@/stores/profileStore';
 import { useLlmBarStore } from '@/stores/llmBarStore';
 import { useNavigationStore } from '@/stores/navigationStore';
-import { generateProfile } from '@/services/provider';
-import { FIXED_MODEL_NAME, FIXED_PROVIDER, FIXED_PROVIDER_NAME, FIXED_TEMPERATURE } from '@/services/types';
-import { isMultiPass } from '@/lib/promptBuilder';
+import { createRunController } from '@/stores/consoleStreamStore';
+import { generateProfile, reviewProfileConsistency } from '@/services/provider';
+import { MAX_BATCH_CONCURRENCY, MAX_BATCH_SIZE, buildBatchBriefs, createBatchItems, runWithConcurrency } from '@/services/batch';
+import { PROVIDER_CONFIGS, getModelName } from '@/services/types';
+import { isMultiPass, resolveGenerationPasses } from '@/lib/promptBuilder';
+import { buildCastContext, summarizeCastDiversity, type CastDiversitySummary } from '@/lib/diversity';
+import { exportCastCsv, importCastCsv, type CsvCastImport } from '@/lib/castCsv';
+import { storage } from '@/lib/storage';
+import { createGenerationStream, type GenerationStream, type GenerationStreamState } from '@/lib/generationStream';
+import { MAX_CANDIDATES, MIN_CANDIDATES, composeCandidates, pickAllFrom } from '@/lib/candidates';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
+import { Switch } from '@/components/ui/Switch';
+import { Textarea } from '@/components/ui/Textarea';
 import { Badge } from '@/components/ui/Badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { SeedForm } from '@/components/generator/SeedForm';
+import { ProfileViewer } from '@/components/profile/ProfileViewer';
+import { BatchProgress } from './BatchProgress';
+import { CastDiversityCard } from './CastDiversityCard';
+import { CsvImportPreview } from './CsvImportPreview';
+import { CandidatePicker, type CandidateView } from './CandidatePicker';
 import { toast } from '@/stores/toastStore';
 import { evaluateConfidence } from '@/lib/workspace';
+import { addUsage, resultUsage } from '@/lib/usage';
 import { generateId } from '@/lib/utils';
-import type { GeneratedProfile } from '@/types';
-import { AlertCircle } from 'lucide-react';
+import type {
+  BatchItem,
+  ConsistencyIssue,
+  ConsistencyReview,
+  GeneratedProfile,
+  GenerationConstraints,
+  GenerationResult,
+  LLMTarget,
+  PartialGeneration,
+  PassProgress,
+  ProfileDraftState,
+  SchemaPreset,
+} from '@/types';
+import { AlertCircle, Upload } from 'lucide-react';
 
 interface StudioPanelProps {
   isActive?: boolean;
 }
 
+type GenerationMode = 'single' | 'candidates' | 'batch';
+
+/** Where batch briefs come from: the brief plus variations, or one row per CSV line */
+type BatchSource = 'brief' | 'csv';
+
+type GenerationOutcome =
+  | { status: 'complete'; profile: GeneratedProfile }
+  | { status: 'error'; error: string; draft?: GeneratedProfile }
+  | { status: 'cancelled'; draft?: GeneratedProfile; completedPasses: number; totalPasses: number };
+
+/** Unsaved profile shown while a single generation streams in */
+interface LivePreview {
+  profile: GeneratedProfile;
+  stream: GenerationStreamState;
+}
+
+/** How often the live preview re-reads the token stream */
+const PREVIEW_REFRESH_MS = 100;
+
+type CandidateSlot =
+  | { status: 'running' | 'cancelled' }
+  | { status: 'complete'; result: GenerationResult }
+  | { status: 'error'; error: string };
+
+/** A best-of-N run: several candidates for one brief, composed into one profile */
+interface CandidateRun {
+  /** Allocated up front so every candidate's calls link to the saved profile */
+  profileId: string;
+  schema: SchemaPreset;
+  target: LLMTarget;
+  /** Trimmed brief, possibly empty; `prompt` is what history shows */
+  brief: string;
+  prompt: string;
+  seeds: Record<string, unknown>;
+  slots: CandidateSlot[];
+}
+
+/** Settings a batch started with, reused when retrying its items */
+interface BatchRun {
+  schema: SchemaPreset;
+  seeds: Record<string, unknown>;
+  /** Feed earlier profiles' picks into later prompts so the cast diverges */
+  diversify: boolean;
+}
+
+const modeOptions: { value: GenerationMode; label: string }[] = [
+  { value: 'single', label: 'Single profile' },
+  { value: 'candidates', label: 'Best of N' },
+  { value: 'batch', label: 'Batch' },
+];
+
+const batchSourceOptions: { value: BatchSource; label: string }[] = [
+  { value: 'brief', label: 'Brief and variations' },
+  { value: 'csv', label: 'CSV rows' },
+];
+
+function clampInt(value: string, min: number, max: number, fallback: number): number {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.min(max, Math.max(min, parsed));
+}
+
+function buildGeneratedProfile(
+  id: string,
+  schema: SchemaPreset,
+  target: LLMTarget,
+  result: Pick<GenerationResult, 'profile' | 'provider' | 'model' | 'repair' | 'tokensUsed'>,
+  seeds: Record<string, unknown>,
+  prompt: string,
+  passes: number,
+  extras: {
+    draft?: ProfileDraftState;
+    candidatePicks?: Record<string, number>;
+    consistencyIssues?: ConsistencyIssue[];
+  } = {}
+): GeneratedProfile {
+  const { draft, candidatePicks, consistencyIssues } = extras;
+  const revisionId = generateId();
+  const now = new Date().toISOString();
+  return {
+    id,
+    schemaId: schema.id,
+    schemaName: schema.name,
+    provider: result.provider,
+    model: result.model,
+    generatedAt: now,
+    seeds,
+    prompt,
+    temperature: target.temperature,
+    profile: result.profile,
+    revisions: [
+      {
+        id: revisionId,
+        createdAt: now,
+        kind: 'generate',
+        prompt,
+        snapshot: result.profile,
+        confidence: evaluateConfidence(schema, result.profile, passes, result.repair, consistencyIssues),
+        usage: resultUsage(result),
+        candidatePicks,
+      },
+    ],
+    activeRevisionId: revisionId,
+    draft,
+  };
+}
+
+/** Runs the consistency review when enabled; a review that fails or is stopped leaves the profile unreviewed. */
+async function reviewIfEnabled(
+  enabled: boolean,
+  target: LLMTarget,
+  schema: SchemaPreset,
+  profile: Record<string, unknown>,
+  brief: string,
+  signal: AbortSignal,
+  profileId: string
+): Promise<ConsistencyReview | undefined> {
+  if (!enabled || signal.aborted) return undefined;
+  try {
+    return await reviewProfileConsistency(target, schema, profile, brief || undefined, signal, profileId);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Generates one candidate without saving it. */
+function generateCandidate(
+  target: LLMTarget,
+  schema: SchemaPreset,
+  brief: string,
+  constraints: GenerationConstraints,
+  signal: AbortSignal,
+  profileId: string
+): Promise<CandidateSlot> {
+  return new Promise<CandidateSlot>((resolve) => {
+    void generateProfile(target, schema, brief, constraints, {
+      onPassStart: () => {
+        // candidates show their status only
+      },
+      onToken: () => {
+        // console popup handles raw token stream globally
+      },
+      onPassComplete: () => {
+        // no-op
+      },
+      onComplete: (result) => resolve({ status: 'complete', result }),
+      onError: (error) => resolve({ status: 'error', error }),
+      onCancel: () => resolve({ status: 'cancelled' }),
+    }, signal, profileId);
+  });
+}
+
 export function StudioPanel({ isActive = true }: StudioPanelProps) {
   const { presets } = useSchemaStore();
-  const { hasApiKey, getApiKey } = useSettingsStore();
+  const { settings, hasApiKey, getLLMTarget } = useSettingsStore();
   const { setConfig, resetConfig } = useLlmBarStore();
   const { setActiveView } = useNavigationStore();
   const {
+    profiles,
     isGenerating,
     setGenerating,
     addProfile,
@@ -33,13 +216,66 @@ export function StudioPanel({ isActive = true }: StudioPanelProps) {
   } = useProfileStore();
 
   const [selectedSchemaId, setSelectedSchemaId] = useState('');
+  const [seeds, setSeeds] = useState<Record<string, unknown>>({});
+  const [mode, setMode] = useState<GenerationMode>('single');
+  const [batchSizeInput, setBatchSizeInput] = useState('10');
+  const [batchConcurrencyInput, setBatchConcurrencyInput] = useState('3');
+  const [batchVariations, setBatchVariations] = useState('');
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchDiversify, setBatchDiversify] = useState(true);
+  const [batchRun, setBatchRun] = useState<BatchRun | null>(null);
+  const [diversitySummary, setDiversitySummary] = useState<CastDiversitySummary | null>(null);
+  const [batchSource, setBatchSource] = useState<BatchSource>('brief');
+  const [csvFile, setCsvFile] = useState<{ name: string; text: string } | null>(null);
+  const [livePreview, setLivePreview] = useState<LivePreview | null>(null);
+  const [candidateCountInput, setCandidateCountInput] = useState('3');
+  const [candidateRun, setCandidateRun] = useState<CandidateRun | null>(null);
+  const [candidatePicks, setCandidatePicks] = useState<Record<string, number>>({});
+  const [isSavingCandidates, setIsSavingCandidates] = useState(false);
+  const [reviewConsistency, setReviewConsistency] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
 
   const selectedSchema = useMemo(
     () => presets.find((preset) => preset.id === selectedSchemaId) ?? null,
     [presets, selectedSchemaId]
   );
   const providerHasKey = hasApiKey();
+  const providerConfig = PROVIDER_CONFIGS[settings.provider];
+  const generationTarget = getLLMTarget('profileGeneration');
   const multiPass = selectedSchema ? isMultiPass(selectedSchema) : false;
+  const batchSize = clampInt(batchSizeInput, 1, MAX_BATCH_SIZE, 10);
+  const batchConcurrency = clampInt(batchConcurrencyInput, 1, MAX_BATCH_CONCURRENCY, 3);
+  // Re-mapped whenever the schema changes so the preview always matches what will run.
+  const csvImport = useMemo<CsvCastImport | null>(() => {
+    if (!csvFile || !selectedSchema) return null;
+    try {
+      return importCastCsv(csvFile.text, selectedSchema);
+    } catch {
+      return null;
+    }
+  }, [csvFile, selectedSchema]);
+  const batchCount = batchSource === 'csv' ? csvImport?.rows.length ?? 0 : batchSize;
+  const candidateCount = clampInt(candidateCountInput, MIN_CANDIDATES, MAX_CANDIDATES, 3);
+  const candidateViews = useMemo<CandidateView[]>(() => {
+    if (!candidateRun) return [];
+    const passes = candidateRun.schema.generationOrder?.length ?? 1;
+    return candidateRun.slots.map((slot, index) => {
+      if (slot.status === 'complete') {
+        const profile = buildGeneratedProfile(
+          `${candidateRun.profileId}-candidate-${index + 1}`,
+          candidateRun.schema,
+          candidateRun.target,
+          slot.result,
+          candidateRun.seeds,
+          candidateRun.prompt,
+          passes
+        );
+        return { status: slot.status, profile };
+      }
+      return { status: slot.status, error: slot.status === 'error' ? slot.error : undefined };
+    });
+  }, [candidateRun]);
 
   useEffect(() => {
     if (presets.length === 0) {
@@ -48,103 +284,497 @@ export function StudioPanel({ isActive = true }: StudioPanelProps) {
     }
     if (!selectedSchemaId || !presets.some((preset) => preset.id === selectedSchemaId)) {
       setSelectedSchemaId(presets[0].id);
+      setSeeds({});
     }
   }, [presets, selectedSchemaId]);
 
-  const handleGenerate = useCallback(async (prompt: string) => {
-    const trimmedPrompt = prompt.trim();
-    const promptForHistory = trimmedPrompt || 'Random character from schema.';
+  const runGeneration = useCallback((
+    target: LLMTarget,
+    schema: SchemaPreset,
+    brief: string,
+    constraints: GenerationConstraints,
+    signal: AbortSignal,
+    onProgress?: (progress: PassProgress) => void,
+    stream?: GenerationStream
+  ): Promise<GenerationOutcome> => {
+    const trimmedBrief = brief.trim();
+    const promptForHistory = trimmedBrief || 'Random character from schema.';
+    // Allocated up front so logged calls link back to the saved profile.
+    const profileId = generateId();
 
+    return new Promise<GenerationOutcome>((resolve) => {
+      const save = async (profile: GeneratedProfile, outcome: GenerationOutcome) => {
+        try {
+          await addProfile(profile);
+          resolve(outcome);
+        } catch (error) {
+          resolve({ status: 'error', error: error instanceof Error ? error.message : 'Could not save profile' });
+        }
+      };
+
+      const buildDraft = (partial: PartialGeneration, error?: string) => {
+        const completedPasses = partial.completedPasses.length;
+        return buildGeneratedProfile(
+          profileId,
+          schema,
+          target,
+          { profile: partial.profile, provider: target.provider, model: target.model },
+          constraints.seeds,
+          promptForHistory,
+          completedPasses,
+          {
+            draft: {
+              completedPasses,
+              totalPasses: partial.totalPasses,
+              stoppedAt: new Date().toISOString(),
+              completedPassIndexes: partial.completedPasses,
+              error,
+              brief: trimmedBrief,
+            },
+          }
+        );
+      };
+
+      void generateProfile(target, schema, trimmedBrief, constraints, {
+        onPassStart: (passIndex, passTotal, paths) => stream?.startPass(passIndex, passTotal, paths),
+        onProgress,
+        onToken: (token, passIndex) => stream?.pushToken(token, passIndex),
+        onPassComplete: (passIndex, partialProfile) => stream?.completePass(passIndex, partialProfile),
+        onComplete: (result) => {
+          void reviewIfEnabled(reviewConsistency, target, schema, result.profile, trimmedBrief, signal, profileId).then((review) => {
+            const profile = buildGeneratedProfile(
+              profileId,
+              schema,
+              target,
+              { ...result, tokensUsed: addUsage(result.tokensUsed, review?.tokensUsed) },
+              constraints.seeds,
+              promptForHistory,
+              schema.generationOrder?.length ?? 1,
+              { consistencyIssues: review?.issues }
+            );
+            void save(profile, { status: 'complete', profile });
+          });
+        },
+        onError: (error, partial) => {
+          if (!partial) {
+            resolve({ status: 'error', error });
+            return;
+          }
+          const draft = buildDraft(partial, error);
+          void save(draft, { status: 'error', error, draft });
+        },
+        onCancel: (partial) => {
+          const completedPasses = partial.completedPasses.length;
+          if (completedPasses === 0) {
+            resolve({ status: 'cancelled', completedPasses, totalPasses: partial.totalPasses });
+            return;
+          }
+          const draft = buildDraft(partial);
+          void save(draft, { status: 'cancelled', draft, completedPasses, totalPasses: partial.totalPasses });
+        },
+      }, signal, profileId);
+    });
+  }, [addProfile, reviewConsistency]);
+
+  const handleGenerate = useCallback(async (prompt: string) => {
     if (!selectedSchema) {
       toast('No schema selected', 'Choose a schema before generating.', 'error');
       return;
     }
     if (!providerHasKey) {
-      toast('No API key', 'Add your OpenAI API key in Settings.', 'error');
+      toast('No API key', `Add your ${providerConfig.name} API key in Settings.`, 'error');
       return;
     }
 
-    const apiKey = getApiKey();
+    const target = getLLMTarget('profileGeneration');
+    const stream = createGenerationStream();
+    const startedAt = new Date().toISOString();
+    const refreshPreview = () => {
+      const state = stream.snapshot();
+      setLivePreview({
+        stream: state,
+        profile: {
+          id: 'preview',
+          schemaId: selectedSchema.id,
+          schemaName: selectedSchema.name,
+          provider: target.provider,
+          model: target.model,
+          generatedAt: startedAt,
+          seeds,
+          prompt,
+          temperature: target.temperature,
+          profile: state.profile,
+        },
+      });
+    };
+    refreshPreview();
+    const refreshTimer = window.setInterval(refreshPreview, PREVIEW_REFRESH_MS);
+
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
     setGenerating(true);
 
     try {
-      await new Promise<void>((resolve, reject) => {
-        generateProfile(apiKey, selectedSchema, trimmedPrompt, {
-          onPassStart: () => {
-            // no-op
-          },
-          onToken: () => {
-            // console popup handles raw token stream globally
-          },
-          onPassComplete: () => {
-            // no-op
-          },
-          onComplete: async (result) => {
-            const revisionId = generateId();
-            const now = new Date().toISOString();
-            const profile: GeneratedProfile = {
-              id: generateId(),
-              schemaId: selectedSchema.id,
-              schemaName: selectedSchema.name,
-              provider: FIXED_PROVIDER,
-              model: FIXED_MODEL_NAME,
-              generatedAt: now,
-              seeds: {},
-              prompt: promptForHistory,
-              temperature: FIXED_TEMPERATURE,
-              profile: result.profile,
-              revisions: [
-                {
-                  id: revisionId,
-                  createdAt: now,
-                  kind: 'generate',
-                  prompt: promptForHistory,
-                  snapshot: result.profile,
-                  confidence: evaluateConfidence(selectedSchema, result.profile, selectedSchema.generationOrder?.length ?? 1),
-                },
-              ],
-              activeRevisionId: revisionId,
-            };
-            await addProfile(profile);
-            setActiveProfile(profile.id);
-            toast('Character ready', 'Opening Profiles workspace.', 'success');
-            setActiveView('history');
-            resolve();
-          },
-          onError: (error) => {
-            toast('Generation failed', error, 'error');
-            reject(new Error(error));
-          },
-        });
-      });
-    } catch {
-      // handled with toast
+      const outcome = await runGeneration(target, selectedSchema, prompt, { seeds }, controller.signal, undefined, stream);
+      if (outcome.status === 'complete') {
+        setActiveProfile(outcome.profile.id);
+        toast('Character ready', 'Opening Profiles workspace.', 'success');
+        setActiveView('history');
+      } else if (outcome.status === 'error') {
+        toast(
+          'Generation failed',
+          outcome.draft ? `${outcome.error} Finished passes were kept as a draft in Profiles; resume it from there.` : outcome.error,
+          'error'
+        );
+      } else if (outcome.draft) {
+        toast('Generation stopped', `Kept ${outcome.completedPasses}/${outcome.totalPasses} passes as a draft in Profiles.`);
+      } else {
+        toast('Generation stopped', 'No passes finished, so nothing was saved.');
+      }
     } finally {
+      window.clearInterval(refreshTimer);
+      setLivePreview(null);
+      release();
+      abortRef.current = null;
       setGenerating(false);
     }
   }, [
     selectedSchema,
+    seeds,
     providerHasKey,
-    getApiKey,
+    providerConfig.name,
+    getLLMTarget,
+    runGeneration,
     setGenerating,
-    addProfile,
     setActiveProfile,
     setActiveView,
   ]);
 
+  const handleGenerateCandidates = useCallback(async (prompt: string) => {
+    if (!selectedSchema) {
+      toast('No schema selected', 'Choose a schema before generating.', 'error');
+      return;
+    }
+    if (!providerHasKey) {
+      toast('No API key', `Add your ${providerConfig.name} API key in Settings.`, 'error');
+      return;
+    }
+
+    const run: CandidateRun = {
+      profileId: generateId(),
+      schema: selectedSchema,
+      target: getLLMTarget('profileGeneration'),
+      brief: prompt.trim(),
+      prompt: prompt.trim() || 'Random character from schema.',
+      seeds,
+      slots: Array.from({ length: candidateCount }, () => ({ status: 'running' as const })),
+    };
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
+    setGenerating(true);
+    setCandidateRun(run);
+    setCandidatePicks({});
+
+    try {
+      const slots = await Promise.all(run.slots.map(async (_, index) => {
+        const slot = await generateCandidate(run.target, run.schema, run.brief, { seeds }, controller.signal, run.profileId);
+        setCandidateRun((prev) => prev && prev.profileId === run.profileId
+          ? { ...prev, slots: prev.slots.map((current, slotIndex) => (slotIndex === index ? slot : current)) }
+          : prev);
+        return slot;
+      }));
+
+      const first = slots.findIndex((slot) => slot.status === 'complete');
+      if (first === -1) {
+        const failure = slots.find((slot): slot is { status: 'error'; error: string } => slot.status === 'error');
+        toast(
+          failure ? 'Generation failed' : 'Generation stopped',
+          failure ? failure.error : 'No candidate finished, so there is nothing to pick from.',
+          failure ? 'error' : 'default'
+        );
+        return;
+      }
+      setCandidatePicks(pickAllFrom(run.schema, first));
+      const ready = slots.filter((slot) => slot.status === 'complete').length;
+      toast('Candidates ready', `${ready} of ${slots.length} finished. Pick a winner for each field, then save.`);
+    } finally {
+      release();
+      abortRef.current = null;
+      setGenerating(false);
+    }
+  }, [
+    selectedSchema,
+    seeds,
+    candidateCount,
+    providerHasKey,
+    providerConfig.name,
+    getLLMTarget,
+    setGenerating,
+  ]);
+
+  const handleSaveCandidates = useCallback(async () => {
+    if (!candidateRun) return;
+    const results = candidateRun.slots.map((slot) => (slot.status === 'complete' ? slot.result : undefined));
+    const first = results.findIndex((result) => !!result);
+    if (first === -1) return;
+
+    const picks = Object.fromEntries(
+      Object.entries({ ...pickAllFrom(candidateRun.schema, first), ...candidatePicks })
+        .map(([path, index]) => [path, results[index] ? index : first])
+    );
+    const composed = composeCandidates(results.map((result) => result?.profile), picks, first);
+
+    const { controller, release } = createRunController();
+    setIsSavingCandidates(true);
+    try {
+      // Mixing fields from different candidates is where contradictions creep in, so review the composed profile.
+      const review = await reviewIfEnabled(
+        reviewConsistency,
+        candidateRun.target,
+        candidateRun.schema,
+        composed,
+        candidateRun.brief,
+        controller.signal,
+        candidateRun.profileId
+      );
+      // Every candidate was paid for, so the saved revision carries their combined usage.
+      const tokensUsed = [...results.map((result) => result?.tokensUsed), review?.tokensUsed]
+        .reduce(addUsage, undefined);
+      const profile = buildGeneratedProfile(
+        candidateRun.profileId,
+        candidateRun.schema,
+        candidateRun.target,
+        {
+          profile: composed,
+          provider: candidateRun.target.provider,
+          model: candidateRun.target.model,
+          tokensUsed,
+        },
+        candidateRun.seeds,
+        candidateRun.prompt,
+        candidateRun.schema.generationOrder?.length ?? 1,
+        { candidatePicks: picks, consistencyIssues: review?.issues }
+      );
+      await addProfile(profile);
+      setCandidateRun(null);
+      setCandidatePicks({});
+      setActiveProfile(profile.id);
+      toast('Character ready', 'Composed profile saved. Opening Profiles workspace.', 'success');
+      setActiveView('history');
+    } catch (error) {
+      toast('Save failed', error instanceof Error ? error.message : 'Could not save profile', 'error');
+    } finally {
+      release();
+      setIsSavingCandidates(false);
+    }
+  }, [candidateRun, candidatePicks, reviewConsistency, addProfile, setActiveProfile, setActiveView]);
+
+  const updateBatchItem = useCallback((index: number, patch: Partial<BatchItem>) => {
+    setBatchItems((prev) => prev.map((item) => (item.index === index ? { ...item, ...patch } : item)));
+  }, []);
+
+  /**
+   * Runs the given items with the batch's settings. `cast` holds profiles the
+   * batch already finished; with diversify on, each item sees every profile
+   * completed before it starts.
+   */
+  const runBatchItems = useCallback(async (
+    items: BatchItem[],
+    run: BatchRun,
+    concurrency: number,
+    cast: Record<string, unknown>[]
+  ) => {
+    // Use the latest saved version of the schema if it was edited since the batch started.
+    const schema = presets.find((preset) => preset.id === run.schema.id) ?? run.schema;
+    const target = getLLMTarget('profileGeneration');
+    const { controller, release } = createRunController();
+    abortRef.current = controller;
+    setGenerating(true);
+    const castProfiles = [...cast];
+    let completed = 0;
+    let failed = 0;
+
+    try {
+      for (const item of items) {
+        updateBatchItem(item.index, { status: 'queued', pass: 0, runningPasses: undefined, profileId: undefined, error: undefined });
+      }
+
+      await runWithConcurrency(items, concurrency, async (item) => {
+        updateBatchItem(item.index, { status: 'running' });
+        const constraints: GenerationConstraints = {
+          seeds: { ...run.seeds, ...item.seeds },
+          cast: run.diversify ? buildCastContext(schema, castProfiles) : undefined,
+        };
+        const outcome = await runGeneration(target, schema, item.brief, constraints, controller.signal, (progress) =>
+          updateBatchItem(item.index, {
+            pass: progress.completed.length,
+            totalPasses: progress.totalPasses,
+            runningPasses: progress.running,
+          })
+        );
+        if (outcome.status === 'complete') {
+          completed += 1;
+          castProfiles.push(outcome.profile.profile);
+          updateBatchItem(item.index, {
+            status: 'complete',
+            pass: item.totalPasses,
+            runningPasses: undefined,
+            profileId: outcome.profile.id,
+          });
+        } else if (outcome.status === 'error') {
+          failed += 1;
+          updateBatchItem(item.index, {
+            status: 'error',
+            runningPasses: undefined,
+            error: outcome.error,
+            profileId: outcome.draft?.id,
+          });
+        } else {
+          updateBatchItem(item.index, {
+            status: 'cancelled',
+            pass: outcome.completedPasses,
+            runningPasses: undefined,
+            profileId: outcome.draft?.id,
+          });
+        }
+      }, controller.signal);
+
+      // Items the pool never reached after Stop.
+      const started = new Set(items.map((item) => item.index));
+      setBatchItems((prev) => prev.map((item) => (
+        started.has(item.index) && item.status === 'queued' ? { ...item, status: 'cancelled' } : item
+      )));
+    } finally {
+      release();
+      abortRef.current = null;
+      setGenerating(false);
+    }
+
+    setDiversitySummary(summarizeCastDiversity(schema, castProfiles));
+    if (controller.signal.aborted) {
+      toast('Batch stopped', `${completed} of ${items.length} finished before stopping.`);
+    } else if (failed > 0) {
+      toast('Batch finished with failures', `${completed} of ${items.length} generated, ${failed} failed. Retry them below.`, 'error');
+    } else {
+      toast('Batch complete', `Generated ${completed} profile${completed !== 1 ? 's' : ''}.`, 'success');
+    }
+  }, [presets, getLLMTarget, runGeneration, setGenerating, updateBatchItem]);
+
+  const handleGenerateBatch = useCallback(async (prompt: string) => {
+    if (!selectedSchema) {
+      toast('No schema selected', 'Choose a schema before generating.', 'error');
+      return;
+    }
+    if (!providerHasKey) {
+      toast('No API key', `Add your ${providerConfig.name} API key in Settings.`, 'error');
+      return;
+    }
+
+    let items: BatchItem[];
+    const totalPasses = resolveGenerationPasses(selectedSchema).length;
+    if (batchSource === 'csv') {
+      if (!csvImport || csvImport.rows.length === 0) {
+        toast('No CSV rows', 'Import a CSV with at least one row below the header.', 'error');
+        return;
+      }
+      if (csvImport.rows.length > MAX_BATCH_SIZE) {
+        toast('Too many rows', `A batch can generate at most ${MAX_BATCH_SIZE} profiles.`, 'error');
+        return;
+      }
+      const briefs = csvImport.rows.map((row) => [prompt.trim(), row.brief].filter(Boolean).join('\n'));
+      items = createBatchItems(briefs, totalPasses, csvImport.rows.map((row) => row.seeds));
+    } else {
+      items = createBatchItems(buildBatchBriefs(prompt, batchSize, batchVariations.split('\n')), totalPasses);
+    }
+    const run: BatchRun = { schema: selectedSchema, seeds, diversify: batchDiversify };
+    setBatchRun(run);
+    setBatchItems(items);
+    setDiversitySummary(null);
+    await runBatchItems(items, run, batchConcurrency, []);
+  }, [
+    selectedSchema,
+    providerHasKey,
+    providerConfig.name,
+    batchSource,
+    csvImport,
+    batchSize,
+    batchVariations,
+    batchConcurrency,
+    batchDiversify,
+    seeds,
+    runBatchItems,
+  ]);
+
+  const handleRetryBatchItems = useCallback((indexes: number[]) => {
+    if (!batchRun || isGenerating) return;
+    const items = batchItems.filter((item) => indexes.includes(item.index));
+    if (items.length === 0) return;
+    const finishedIds = new Set(batchItems.filter((item) => item.status === 'complete').map((item) => item.profileId));
+    const cast = profiles.filter((profile) => finishedIds.has(profile.id)).map((profile) => profile.profile);
+    void runBatchItems(items, batchRun, batchConcurrency, cast);
+  }, [batchRun, batchItems, batchConcurrency, isGenerating, profiles, runBatchItems]);
+
+  const handleCsvFile = useCallback(async (file: File) => {
+    try {
+      const text = await file.text();
+      if (selectedSchema) importCastCsv(text, selectedSchema);
+      setCsvFile({ name: file.name, text });
+    } catch (error) {
+      toast('Import failed', error instanceof Error ? error.message : 'Could not read the CSV file.', 'error');
+    } finally {
+      if (csvInputRef.current) {
+        csvInputRef.current.value = '';
+      }
+    }
+  }, [selectedSchema]);
+
+  const handleExportBatchCsv = useCallback(async () => {
+    if (!batchRun) return;
+    const schema = presets.find((preset) => preset.id === batchRun.schema.id) ?? batchRun.schema;
+    const cast = batchItems
+      .filter((item) => item.status === 'complete')
+      .flatMap((item) => {
+        const profile = profiles.find((entry) => entry.id === item.profileId);
+        return profile ? [{ brief: item.brief, profile: profile.profile }] : [];
+      });
+    if (cast.length === 0) return;
+
+    const safeName = schema.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'cast';
+    const savedPath = await storage.saveCsvWithDialog(`${safeName}-cast.csv`, exportCastCsv(schema, cast));
+    if (savedPath) {
+      toast('Cast exported', `${cast.length} profile${cast.length !== 1 ? 's' : ''} written to ${savedPath}.`, 'success');
+    }
+  }, [batchRun, batchItems, presets, profiles]);
+
+  const handleOpenBatchProfile = useCallback((profileId: string) => {
+    setActiveProfile(profileId);
+    setActiveView('history');
+  }, [setActiveProfile, setActiveView]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     if (!isActive) return;
 
     const baseChips = [
       { id: 'view', label: 'Create' },
       { id: 'schema', label: selectedSchema ? `Schema: ${selectedSchema.name}` : 'Schema required' },
-      { id: 'mode', label: 'Mode: Generate' },
+      {
+        id: 'mode',
+        label: mode === 'batch'
+          ? `Mode: Batch of ${batchCount}`
+          : mode === 'candidates'
+            ? `Mode: Best of ${candidateCount}`
+            : 'Mode: Generate',
+      },
     ];
 
     if (!providerHasKey) {
       setConfig({
         chips: baseChips,
-        placeholder: 'Add your OpenAI key in Settings to generate.',
+        placeholder: `Add your ${providerConfig.name} key in Settings to generate.`,
         submitLabel: 'Generate',
         disabled: true,
         disabledReason: 'Open Settings and add an API key.',
@@ -167,17 +797,60 @@ export function StudioPanel({ isActive = true }: StudioPanelProps) {
       return;
     }
 
+    if (mode === 'batch' && batchSource === 'csv' && batchCount === 0) {
+      setConfig({
+        chips: baseChips,
+        placeholder: 'Import a CSV to continue.',
+        submitLabel: 'Generate',
+        disabled: true,
+        disabledReason: 'Import a CSV with at least one row.',
+        busy: isGenerating,
+        onSubmit: undefined,
+        onCancel: handleCancel,
+      });
+      return;
+    }
+
+    const batchPlaceholder = batchSource === 'csv'
+      ? 'Shared brief (optional). Each row\'s brief is added to it.'
+      : 'Describe the cast (optional). Each profile gets this brief plus its variation.';
     setConfig({
       chips: baseChips,
-      placeholder: 'Describe the character (optional). Leave blank for random from schema.',
-      submitLabel: 'Generate',
+      placeholder: mode === 'batch'
+        ? batchPlaceholder
+        : 'Describe the character (optional). Leave blank for random from schema.',
+      submitLabel: mode === 'batch'
+        ? `Generate ${batchCount}`
+        : mode === 'candidates'
+          ? `Generate ${candidateCount} candidates`
+          : 'Generate',
       disabled: false,
       disabledReason: undefined,
       busy: isGenerating,
       allowEmptyPrompt: true,
-      onSubmit: handleGenerate,
+      onSubmit: mode === 'batch'
+        ? handleGenerateBatch
+        : mode === 'candidates'
+          ? handleGenerateCandidates
+          : handleGenerate,
+      onCancel: handleCancel,
     });
-  }, [handleGenerate, isGenerating, isActive, providerHasKey, selectedSchema, setConfig]);
+  }, [
+    handleGenerate,
+    handleGenerateCandidates,
+    handleGenerateBatch,
+    handleCancel,
+    isGenerating,
+    isActive,
+    mode,
+    batchSource,
+    batchCount,
+    candidateCount,
+    providerHasKey,
+    providerConfig.name,
+    selectedSchema,
+    setConfig,
+  ]);
 
   useEffect(() => {
     if (!isActive) return;
@@ -203,7 +876,10 @@ export function StudioPanel({ isActive = true }: StudioPanelProps) {
               <label className="text-xs font-medium text-muted-foreground">Schema</label>
               <Select
                 value={selectedSchemaId}
-                onValueChange={setSelectedSchemaId}
+                onValueChange={(id) => {
+                  setSelectedSchemaId(id);
+                  setSeeds({});
+                }}
                 placeholder="Select a schema..."
                 options={presets.map((preset) => ({
                   value: preset.id,
@@ -213,9 +889,9 @@ export function StudioPanel({ isActive = true }: StudioPanelProps) {
             </div>
 
             <div className="flex flex-wrap gap-1.5 text-[10px]">
-              <Badge variant="secondary">{FIXED_PROVIDER_NAME}</Badge>
-              <Badge variant="outline">{FIXED_MODEL_NAME}</Badge>
-              <Badge variant="outline">T: {FIXED_TEMPERATURE.toFixed(2)}</Badge>
+              <Badge variant="secondary">{providerConfig.name}</Badge>
+              <Badge variant="outline">{getModelName(providerConfig.id, generationTarget.model)}</Badge>
+              <Badge variant="outline">T: {generationTarget.temperature.toFixed(2)}</Badge>
               {multiPass && selectedSchema?.generationOrder && (
                 <Badge variant="outline">{selectedSchema.generationOrder.length}-pass</Badge>
               )}
@@ -224,16 +900,221 @@ export function StudioPanel({ isActive = true }: StudioPanelProps) {
               )}
             </div>
 
+            <div className="space-y-1.5">
+              <label className="text-xs font-medium text-muted-foreground">Mode</label>
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as GenerationMode)}
+                options={modeOptions}
+                disabled={isGenerating}
+              />
+            </div>
+
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <label className="text-xs font-medium">Consistency review</label>
+                <p className="text-[11px] text-muted-foreground">
+                  After generating, a critic pass checks fields against their dependencies and hints. Issues show in Profiles with one-click fixes.
+                </p>
+              </div>
+              <Switch checked={reviewConsistency} onCheckedChange={setReviewConsistency} disabled={isGenerating} />
+            </div>
+
             <p className="text-xs text-muted-foreground">
               Brief is optional. Leave it blank to generate a random character from this schema.
             </p>
           </CardContent>
         </Card>
 
+        {mode === 'single' && livePreview && (
+          <Card>
+            <CardContent className="pt-6">
+              <ProfileViewer profile={livePreview.profile} stream={livePreview.stream} />
+            </CardContent>
+          </Card>
+        )}
+
+        {mode === 'candidates' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Candidate Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">
+                  Candidates ({MIN_CANDIDATES}–{MAX_CANDIDATES})
+                </label>
+                <Input
+                  type="number"
+                  min={MIN_CANDIDATES}
+                  max={MAX_CANDIDATES}
+                  value={candidateCountInput}
+                  onChange={(e) => setCandidateCountInput(e.target.value)}
+                  disabled={isGenerating}
+                />
+              </div>
+              <p className="text-[11px] text-muted-foreground">
+                Every candidate is generated in parallel from the same brief and seeds. Only the composed profile is saved.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {mode === 'candidates' && candidateRun && (
+          <CandidatePicker
+            schema={candidateRun.schema}
+            candidates={candidateViews}
+            picks={candidatePicks}
+            running={isGenerating}
+            saving={isSavingCandidates}
+            onPick={(path, index) => setCandidatePicks((prev) => ({ ...prev, [path]: index }))}
+            onPickAll={(index) => setCandidatePicks(pickAllFrom(candidateRun.schema, index))}
+            onSave={() => void handleSaveCandidates()}
+            onDiscard={() => {
+              setCandidateRun(null);
+              setCandidatePicks({});
+            }}
+          />
+        )}
+
+        {mode === 'batch' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Batch Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <label className="text-xs font-medium text-muted-foreground">Source</label>
+                  <Select
+                    value={batchSource}
+                    onValueChange={(value) => setBatchSource(value as BatchSource)}
+                    options={batchSourceOptions}
+                    disabled={isGenerating}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <label className="text-xs font-medium text-muted-foreground">Concurrent runs (max {MAX_BATCH_CONCURRENCY})</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_BATCH_CONCURRENCY}
+                    value={batchConcurrencyInput}
+                    onChange={(e) => setBatchConcurrencyInput(e.target.value)}
+                    disabled={isGenerating}
+                  />
+                </div>
+              </div>
+              {batchSource === 'brief' ? (
+                <>
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">Profiles (max {MAX_BATCH_SIZE})</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={MAX_BATCH_SIZE}
+                      value={batchSizeInput}
+                      onChange={(e) => setBatchSizeInput(e.target.value)}
+                      disabled={isGenerating}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">Brief variations (optional, one per line)</label>
+                    <Textarea
+                      value={batchVariations}
+                      onChange={(e) => setBatchVariations(e.target.value)}
+                      placeholder={'A grizzled dockworker\nA young temple acolyte\nA travelling merchant'}
+                      className="min-h-[96px] text-sm"
+                      disabled={isGenerating}
+                    />
+                    <p className="text-[11px] text-muted-foreground">
+                      Each profile gets the brief plus the next variation, cycling when there are fewer lines than profiles.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-[11px] text-muted-foreground">
+                      One profile per row. Name columns after seedable field keys (nested fields as <code>parent.key</code>)
+                      and add a <code>brief</code> column for per-row briefs. Row values override the seeded fields below.
+                    </p>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="shrink-0"
+                      onClick={() => csvInputRef.current?.click()}
+                      disabled={isGenerating}
+                    >
+                      <Upload className="h-3.5 w-3.5" />
+                      {csvFile ? 'Replace .csv' : 'Import .csv'}
+                    </Button>
+                    <input
+                      ref={csvInputRef}
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        if (file) {
+                          void handleCsvFile(file);
+                        }
+                      }}
+                    />
+                  </div>
+                  {csvFile && csvImport && (
+                    <CsvImportPreview fileName={csvFile.name} result={csvImport} maxRows={MAX_BATCH_SIZE} />
+                  )}
+                </div>
+              )}
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <label className="text-xs font-medium">Diversify cast</label>
+                  <p className="text-[11px] text-muted-foreground">
+                    Later profiles are told which names and archetypes are taken and which scale values are overused.
+                  </p>
+                </div>
+                <Switch checked={batchDiversify} onCheckedChange={setBatchDiversify} disabled={isGenerating} />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {mode === 'batch' && batchItems.length > 0 && (
+          <BatchProgress
+            items={batchItems}
+            running={isGenerating}
+            onRetry={(index) => handleRetryBatchItems([index])}
+            onRetryFailed={() => handleRetryBatchItems(
+              batchItems.filter((item) => item.status === 'error' || item.status === 'cancelled').map((item) => item.index)
+            )}
+            onOpenProfile={handleOpenBatchProfile}
+            onExport={() => void handleExportBatchCsv()}
+          />
+        )}
+
+        {mode === 'batch' && diversitySummary && diversitySummary.profileCount > 1 && (
+          <CastDiversityCard summary={diversitySummary} />
+        )}
+
+        {selectedSchema && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Seeded Fields</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                Seeded values are kept exactly as entered. Everything else is generated around them.
+              </p>
+              <SeedForm fields={selectedSchema.fields} seeds={seeds} onSeedsChange={setSeeds} />
+            </CardContent>
+          </Card>
+        )}
+
         {!providerHasKey && (
           <div className="flex items-center gap-2 text-sm text-amber-400 bg-amber-500/10 rounded-md p-3">
             <AlertCircle className="h-4 w-4 shrink-0" />
-            <span>No API key configured for OpenAI. Add one in Settings.</span>
+            <span>No API key configured for {providerConfig.name}. Add one in Settings.</span>
           </div>
         )}
       </div>
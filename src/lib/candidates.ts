@@ -0,0 +1,33 @@
+import type { SchemaPreset } from '@/types';
+import { cloneJson, mergePathValues } from './workspace';
+
+export const MIN_CANDIDATES = 2;
+export const MAX_CANDIDATES = 5;
+
+/** Every top-level field taken from one candidate */
+export function pickAllFrom(schema: SchemaPreset, candidateIndex: number): Record<string, number> {
+  return Object.fromEntries(schema.fields.map((field) => [field.key, candidateIndex]));
+}
+
+/**
+ * Builds one profile from several candidates. `picks` maps field paths to the
+ * index of the candidate each is taken from; fields without a pick, or whose
+ * picked candidate is missing, come from `fallbackIndex`.
+ */
+export function composeCandidates(
+  candidates: (Record<string, unknown> | undefined)[],
+  picks: Record<string, number>,
+  fallbackIndex: number
+): Record<string, unknown> {
+  const pathsByCandidate = new Map<number, string[]>();
+  for (const [path, index] of Object.entries(picks)) {
+    if (!candidates[index]) continue;
+    pathsByCandidate.set(index, [...(pathsByCandidate.get(index) ?? []), path]);
+  }
+
+  let composed = cloneJson(candidates[fallbackIndex] ?? {});
+  pathsByCandidate.forEach((paths, index) => {
+    composed = mergePathValues(composed, candidates[index]!, paths);
+  });
+  return composed;
+}
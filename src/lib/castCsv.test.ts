@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { exportCastCsv, importCastCsv } from './castCsv';
+import { parseCsv } from './csv';
+import type { SchemaPreset } from '@/types';
+
+const schema: SchemaPreset = {
+  id: 'schema',
+  name: 'Test',
+  version: 1,
+  createdAt: '',
+  updatedAt: '',
+  fields: [
+    { key: 'name', label: 'Name', type: 'text', description: '', seedable: true },
+    { key: 'age', label: 'Age', type: 'number', description: '', seedable: true },
+    {
+      key: 'stats',
+      label: 'Stats',
+      type: 'object',
+      description: '',
+      seedable: true,
+      fields: [
+        { key: 'wit', label: 'Wit', type: 'scale', description: '', seedable: true, levels: ['low', 'high'] },
+        { key: 'grit', label: 'Grit', type: 'scale', description: '', seedable: true, levels: ['low', 'high'] },
+      ],
+    },
+    { key: 'traits', label: 'Traits', type: 'trait-list', description: '', seedable: true },
+    {
+      key: 'quirks',
+      label: 'Quirks',
+      type: 'array',
+      description: '',
+      seedable: false,
+      arrayItemType: 'object',
+      fields: [{ key: 'text', label: 'Text', type: 'text', description: '', seedable: false }],
+    },
+  ],
+};
+
+const profile = {
+  name: 'Mara',
+  age: 34,
+  stats: { wit: 'high', grit: 'low' },
+  traits: 'dry, patient, "wry"',
+  quirks: [{ text: 'hums, off-key' }, { text: 'says "well, then"' }],
+};
+
+describe('exportCastCsv', () => {
+  it('writes the brief, one column per leaf path and one JSON column per array of objects', () => {
+    const [header, row] = parseCsv(exportCastCsv(schema, [{ brief: 'A sailor', profile }]));
+    expect(header).toEqual(['brief', 'name', 'age', 'stats.wit', 'stats.grit', 'traits', 'quirks']);
+    expect(row[0]).toBe('A sailor');
+    expect(JSON.parse(row[6])).toEqual(profile.quirks);
+  });
+
+  it('reads a full export back unchanged through importCastCsv', () => {
+    const cast = [
+      { brief: 'A sailor,\nretired', profile },
+      { brief: '', profile: { name: 'Ines', age: 51, stats: { wit: 'low', grit: 'high' }, traits: 'loud' } },
+    ];
+    const imported = importCastCsv(exportCastCsv(schema, cast), schema);
+
+    expect(imported.columns.map((column) => column.kind)).toEqual(['brief', 'field', 'field', 'field', 'field', 'field', 'ignored']);
+    expect(imported.issues).toEqual([]);
+    expect(imported.rows).toEqual([
+      {
+        row: 2,
+        brief: 'A sailor,\nretired',
+        seeds: { name: 'Mara', age: 34, 'stats.wit': 'high', 'stats.grit': 'low', traits: 'dry, patient, "wry"' },
+      },
+      {
+        row: 3,
+        brief: '',
+        seeds: { name: 'Ines', age: 51, 'stats.wit': 'low', 'stats.grit': 'high', traits: 'loud' },
+      },
+    ]);
+  });
+});
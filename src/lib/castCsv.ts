@@ -0,0 +1,174 @@
+import type { SchemaField, SchemaPreset } from '@/types';
+import { parseCsv, serializeCsv } from './csv';
+import { fieldLeafPaths } from './fieldPaths';
+import { getPathValue } from './workspace';
+
+/** Column holding each row's free-text brief */
+export const BRIEF_COLUMN = 'brief';
+
+/** Field types the seed form can take a value for */
+const SEEDABLE_TYPES = new Set(['text', 'number', 'boolean', 'enum', 'scale', 'trait-list', 'references']);
+
+export interface CsvColumnMapping {
+  header: string;
+  kind: 'brief' | 'field' | 'ignored';
+  /** Seed path for 'field' columns */
+  path?: string;
+  label?: string;
+  /** Why an 'ignored' column was not mapped */
+  note?: string;
+}
+
+export interface CsvCastIssue {
+  /** Spreadsheet row number, counting blank rows; the header is row 1 */
+  row: number;
+  header: string;
+  message: string;
+}
+
+export interface CsvCastRow {
+  row: number;
+  brief: string;
+  seeds: Record<string, unknown>;
+}
+
+export interface CsvCastImport {
+  columns: CsvColumnMapping[];
+  rows: CsvCastRow[];
+  /** Cells that could not be used as seeds; those fields are generated instead */
+  issues: CsvCastIssue[];
+}
+
+/** A finished profile and the brief it was generated from */
+export interface CsvCastEntry {
+  brief: string;
+  profile: Record<string, unknown>;
+}
+
+interface SeedableField {
+  path: string;
+  label: string;
+  field: SchemaField;
+}
+
+/** Seedable leaf fields by dotted path, matching the keys `SeedForm` writes. */
+function collectSeedableFields(fields: SchemaField[], prefixPath = '', prefixLabel = ''): SeedableField[] {
+  const result: SeedableField[] = [];
+  for (const field of fields) {
+    if (!field.seedable) continue;
+    const path = prefixPath ? `${prefixPath}.${field.key}` : field.key;
+    const label = prefixLabel ? `${prefixLabel} / ${field.label}` : field.label;
+    if (field.type === 'object' && field.fields?.length) {
+      result.push(...collectSeedableFields(field.fields, path, label));
+    } else if (SEEDABLE_TYPES.has(field.type)) {
+      result.push({ path, label, field });
+    }
+  }
+  return result;
+}
+
+function coerceCell(field: SchemaField, raw: string): { value: unknown } | { error: string } {
+  switch (field.type) {
+    case 'number': {
+      const value = Number(raw);
+      return Number.isFinite(value) ? { value } : { error: `"${raw}" is not a number` };
+    }
+    case 'boolean':
+      if (/^(true|yes|y|1)$/i.test(raw)) return { value: true };
+      if (/^(false|no|n|0)$/i.test(raw)) return { value: false };
+      return { error: `"${raw}" is not yes/no` };
+    case 'enum':
+    case 'scale': {
+      const allowed = (field.type === 'scale' ? field.levels : field.options) ?? [];
+      const match = allowed.find((option) => option.toLowerCase() === raw.toLowerCase());
+      return match ? { value: match } : { error: `"${raw}" is not one of ${allowed.join(', ')}` };
+    }
+    default:
+      return { value: raw };
+  }
+}
+
+function mapColumns(headers: string[], schema: SchemaPreset): CsvColumnMapping[] {
+  const seedable = new Map(collectSeedableFields(schema.fields).map((entry) => [entry.path.toLowerCase(), entry]));
+  const seen = new Set<string>();
+
+  return headers.map((raw) => {
+    const header = raw.trim();
+    const normalized = header.toLowerCase();
+    if (seen.has(normalized)) {
+      return { header, kind: 'ignored', note: 'Duplicate column' };
+    }
+    seen.add(normalized);
+
+    if (normalized === BRIEF_COLUMN) return { header, kind: 'brief' };
+    const entry = seedable.get(normalized);
+    if (entry) return { header, kind: 'field', path: entry.path, label: entry.label };
+    return { header, kind: 'ignored', note: header ? 'Not a seedable field in this schema' : 'Empty header' };
+  });
+}
+
+/**
+ * Reads a cast spreadsheet against a schema. The first row is the header:
+ * a `brief` column and columns named after seedable field paths are used,
+ * anything else is ignored. Blank rows are skipped and blank cells leave the
+ * field to the model.
+ */
+export function importCastCsv(text: string, schema: SchemaPreset): CsvCastImport {
+  const [header, ...records] = parseCsv(text)
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim()));
+  if (!header) throw new Error('The CSV file is empty.');
+
+  const columns = mapColumns(header.cells, schema);
+  const fields = new Map(collectSeedableFields(schema.fields).map((entry) => [entry.path, entry.field]));
+  const rows: CsvCastRow[] = [];
+  const issues: CsvCastIssue[] = [];
+
+  records.forEach(({ cells, row }) => {
+    let brief = '';
+    const seeds: Record<string, unknown> = {};
+
+    columns.forEach((column, columnIndex) => {
+      const raw = (cells[columnIndex] ?? '').trim();
+      if (!raw) return;
+      if (column.kind === 'brief') {
+        brief = raw;
+      } else if (column.kind === 'field' && column.path) {
+        const coerced = coerceCell(fields.get(column.path)!, raw);
+        if ('error' in coerced) {
+          issues.push({ row, header: column.header, message: coerced.error });
+        } else {
+          seeds[column.path] = coerced.value;
+        }
+      }
+    });
+
+    rows.push({ row, brief, seeds });
+  });
+
+  return { columns, rows, issues };
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every((item) => ['string', 'number', 'boolean'].includes(typeof item))) {
+    return value.join('; ');
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * One row per profile: its brief, then one column per leaf field path, so the
+ * file reads back through `importCastCsv` as briefs and seeds. Objects are
+ * split into their child columns; lists of plain values are joined with "; "
+ * and lists of objects are written as one JSON column.
+ */
+export function exportCastCsv(schema: SchemaPreset, cast: CsvCastEntry[]): string {
+  const paths = fieldLeafPaths(schema.fields);
+  return serializeCsv([
+    [BRIEF_COLUMN, ...paths],
+    ...cast.map(({ brief, profile }) => [brief, ...paths.map((path) => formatCell(getPathValue(profile, path)))]),
+  ]);
+}
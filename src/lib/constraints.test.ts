@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { describeConstraint, findPronounMismatch, matchesCondition, parseConstraints } from './constraints';
+
+describe('matchesCondition', () => {
+  it('compares text case-insensitively', () => {
+    expect(matchesCondition('Knight', { path: 'role', operator: 'equals', value: 'knight' })).toBe(true);
+    expect(matchesCondition('Knight', { path: 'role', operator: 'notEquals', value: 'knight' })).toBe(false);
+  });
+
+  it('matches list items whole and text by substring', () => {
+    expect(matchesCondition(['Sword', 'Shield'], { path: 'gear', operator: 'includes', value: 'sword' })).toBe(true);
+    expect(matchesCondition(['Swordfish'], { path: 'gear', operator: 'includes', value: 'sword' })).toBe(false);
+    expect(matchesCondition('carries a sword', { path: 'gear', operator: 'excludes', value: 'sword' })).toBe(false);
+  });
+
+  it('reads numbers and booleans as text', () => {
+    expect(matchesCondition(3, { path: 'rank', operator: 'equals', value: '3' })).toBe(true);
+    expect(matchesCondition(false, { path: 'armed', operator: 'equals', value: 'false' })).toBe(true);
+  });
+});
+
+describe('findPronounMismatch', () => {
+  it('flags text that only uses another set of pronouns', () => {
+    expect(findPronounMismatch('she/her', 'He keeps his own counsel.')).toBe('uses he/him pronouns');
+  });
+
+  it('accepts text that uses a declared pronoun alongside others', () => {
+    expect(findPronounMismatch('she/her', 'She trusts him more than her sister.')).toBeNull();
+  });
+
+  it('does not count "they" against a match and skips undeclared sets', () => {
+    expect(findPronounMismatch('he/him', 'They all laughed.')).toBeNull();
+    expect(findPronounMismatch('xe/xem', 'She laughed.')).toBeNull();
+  });
+});
+
+describe('parseConstraints', () => {
+  it('keeps well-formed rules and drops malformed ones', () => {
+    const parsed = parseConstraints([
+      { id: 'r1', kind: 'implies', when: { path: 'role', operator: 'equals', value: 'knight' }, then: { path: 'gear', operator: 'includes', value: 'sword' } },
+      { id: 'r2', kind: 'pronounAgreement', pronounsPath: 'pronouns', textPath: 'backstory' },
+      { kind: 'implies', when: { path: 'role', operator: 'resembles', value: 'x' }, then: { path: 'gear', operator: 'equals', value: 'y' } },
+      { kind: 'pronounAgreement', pronounsPath: 'pronouns' },
+      'not a rule',
+    ]);
+    expect(parsed.map((rule) => rule.id)).toEqual(['r1', 'r2']);
+    expect(parseConstraints({ not: 'a list' })).toEqual([]);
+  });
+
+  it('stringifies scalar condition values and assigns missing ids', () => {
+    const [rule] = parseConstraints([
+      { kind: 'implies', when: { path: ' rank ', operator: 'equals', value: 3 }, then: { path: 'armed', operator: 'equals', value: true } },
+    ]);
+    expect(rule.id).toBeTruthy();
+    expect(describeConstraint(rule)).toBe('If rank is "3", armed must be "true"');
+  });
+});
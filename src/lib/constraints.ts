@@ -0,0 +1,109 @@
+import type { ConstraintCondition, ConstraintOperator, SchemaConstraint } from '@/types';
+import { generateId } from './utils';
+
+export const CONSTRAINT_OPERATORS: { value: ConstraintOperator; label: string; rule: string }[] = [
+  { value: 'equals', label: 'is', rule: 'must be' },
+  { value: 'notEquals', label: 'is not', rule: 'must not be' },
+  { value: 'includes', label: 'includes', rule: 'must include' },
+  { value: 'excludes', label: 'does not include', rule: 'must not include' },
+];
+
+const PRONOUN_SETS: Record<string, string[]> = {
+  she: ['she', 'her', 'hers', 'herself'],
+  he: ['he', 'him', 'his', 'himself'],
+  they: ['they', 'them', 'their', 'theirs', 'themself', 'themselves'],
+};
+
+function operatorWords(operator: ConstraintOperator): { label: string; rule: string } {
+  return CONSTRAINT_OPERATORS.find((entry) => entry.value === operator) ?? CONSTRAINT_OPERATORS[0];
+}
+
+function normalizeText(value: unknown): string {
+  return (typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)).trim().toLowerCase();
+}
+
+/** Field paths a constraint reads */
+export function constraintPaths(constraint: SchemaConstraint): string[] {
+  return constraint.kind === 'implies'
+    ? [constraint.when.path, constraint.then.path]
+    : [constraint.pronounsPath, constraint.textPath];
+}
+
+/** One-line, human-readable form of a rule, used in prompts and in the editor */
+export function describeConstraint(constraint: SchemaConstraint): string {
+  if (constraint.kind === 'pronounAgreement') {
+    return `Third-person pronouns in ${constraint.textPath} must match ${constraint.pronounsPath}`;
+  }
+  const { when, then } = constraint;
+  return `If ${when.path} ${operatorWords(when.operator).label} "${when.value}", ${then.path} ${operatorWords(then.operator).rule} "${then.value}"`;
+}
+
+export function matchesCondition(value: unknown, condition: ConstraintCondition): boolean {
+  const expected = condition.value.trim().toLowerCase();
+  const equals = !Array.isArray(value) && normalizeText(value) === expected;
+  const includes = Array.isArray(value)
+    ? value.some((item) => normalizeText(item) === expected)
+    : normalizeText(value).includes(expected);
+
+  switch (condition.operator) {
+    case 'equals':
+      return equals;
+    case 'notEquals':
+      return !equals;
+    case 'includes':
+      return includes;
+    case 'excludes':
+      return !includes;
+  }
+}
+
+/**
+ * Describes how `text` uses the wrong pronouns for a character whose pronouns
+ * are `pronouns` (e.g. "she/her"), or returns null when it does not. Text that
+ * uses any declared pronoun passes, since other pronouns may refer to someone
+ * else; "they" never counts against a match because it is often plural.
+ * Pronouns outside he/she/they are not checked.
+ */
+export function findPronounMismatch(pronouns: string, text: string): string | null {
+  const declaredWords = new Set(pronouns.toLowerCase().split(/[^a-z]+/).filter(Boolean));
+  const declared = Object.keys(PRONOUN_SETS).filter((set) => PRONOUN_SETS[set].some((word) => declaredWords.has(word)));
+  if (declared.length === 0) return null;
+
+  const words = new Set(text.toLowerCase().match(/[a-z]+/g) ?? []);
+  const uses = (set: string) => PRONOUN_SETS[set].some((word) => words.has(word));
+  if (declared.some(uses)) return null;
+
+  const wrong = ['she', 'he'].filter((set) => !declared.includes(set) && uses(set));
+  if (wrong.length === 0) return null;
+  return `uses ${wrong.map((set) => PRONOUN_SETS[set].slice(0, 2).join('/')).join(' and ')} pronouns`;
+}
+
+function parseCondition(input: unknown): ConstraintCondition | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const src = input as Record<string, unknown>;
+  if (typeof src.path !== 'string' || !src.path.trim()) return null;
+  if (!CONSTRAINT_OPERATORS.some((entry) => entry.value === src.operator)) return null;
+  if (typeof src.value !== 'string' && typeof src.value !== 'number' && typeof src.value !== 'boolean') return null;
+  return { path: src.path.trim(), operator: src.operator as ConstraintOperator, value: String(src.value) };
+}
+
+/** Reads constraints from imported JSON, dropping malformed entries. */
+export function parseConstraints(input: unknown): SchemaConstraint[] {
+  if (!Array.isArray(input)) return [];
+  const constraints: SchemaConstraint[] = [];
+  for (const entry of input) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue;
+    const src = entry as Record<string, unknown>;
+    const id = typeof src.id === 'string' && src.id ? src.id : generateId();
+    if (src.kind === 'implies') {
+      const when = parseCondition(src.when);
+      const then = parseCondition(src.then);
+      if (when && then) constraints.push({ id, kind: 'implies', when, then });
+    } else if (src.kind === 'pronounAgreement') {
+      if (typeof src.pronounsPath === 'string' && src.pronounsPath && typeof src.textPath === 'string' && src.textPath) {
+        constraints.push({ id, kind: 'pronounAgreement', pronounsPath: src.pronounsPath, textPath: src.textPath });
+      }
+    }
+  }
+  return constraints;
+}
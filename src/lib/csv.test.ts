@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, serializeCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted cells holding commas, newlines and doubled quotes', () => {
+    expect(parseCsv('name,quote\nMara,"Well, then\nsaid ""no"""\n')).toEqual([
+      ['name', 'quote'],
+      ['Mara', 'Well, then\nsaid "no"'],
+    ]);
+  });
+
+  it('accepts CRLF line endings and a byte-order mark', () => {
+    expect(parseCsv('\uFEFFa,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty cells and a last row without a line ending', () => {
+    expect(parseCsv('a,,c\n,2,')).toEqual([['a', '', 'c'], ['', '2', '']]);
+  });
+});
+
+describe('serializeCsv', () => {
+  it('quotes only cells that need it and reads back unchanged', () => {
+    const rows = [['name', 'quote'], ['Mara', 'Well, "then"\nbye'], ['Ines', 'plain']];
+    const text = serializeCsv(rows);
+    expect(text).toBe('name,quote\r\nMara,"Well, ""then""\nbye"\r\nInes,plain\r\n');
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
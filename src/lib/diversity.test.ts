@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { buildCastContext, summarizeCastDiversity } from './diversity';
+import type { SchemaPreset } from '@/types';
+
+const schema: SchemaPreset = {
+  id: 'schema',
+  name: 'Test',
+  version: 1,
+  createdAt: '',
+  updatedAt: '',
+  fields: [
+    { key: 'name', label: 'Name', type: 'text', description: '', seedable: true, generationHint: 'identity' },
+    { key: 'backstory', label: 'Backstory', type: 'text', description: '', seedable: false, generationHint: 'narrative' },
+    {
+      key: 'stats',
+      label: 'Stats',
+      type: 'object',
+      description: '',
+      seedable: false,
+      fields: [{ key: 'wit', label: 'Wit', type: 'scale', description: '', seedable: false, levels: ['low', 'high'] }],
+    },
+  ],
+};
+
+const cast = [
+  { name: 'Mara', backstory: 'A sailor.', stats: { wit: 'high' } },
+  { name: 'Ines', backstory: 'A sailor.', stats: { wit: 'high' } },
+  { name: 'mara ', stats: { wit: 'low' } },
+];
+
+describe('buildCastContext', () => {
+  it('lists identity values to avoid and counts every scale level', () => {
+    expect(buildCastContext(schema, cast)).toEqual({
+      avoid: { name: ['Mara', 'Ines', 'mara'] },
+      distribution: { 'stats.wit': { low: 1, high: 2 } },
+    });
+  });
+
+  it('has no distribution before the first profile', () => {
+    expect(buildCastContext(schema, [])).toEqual({ avoid: {}, distribution: {} });
+  });
+});
+
+describe('summarizeCastDiversity', () => {
+  it('reports identity values repeated regardless of case, but not narrative ones', () => {
+    const summary = summarizeCastDiversity(schema, cast);
+    expect(summary.profileCount).toBe(3);
+    expect(summary.duplicates).toEqual([{ path: 'name', label: 'Name', value: 'Mara', count: 2 }]);
+    expect(summary.distributions).toEqual([
+      { path: 'stats.wit', label: 'Stats / Wit', counts: [{ value: 'low', count: 1 }, { value: 'high', count: 2 }] },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import type { CastContext, SchemaField, SchemaPreset } from '@/types';
+import { getPathValue } from './workspace';
+
+/** Most recent identity values kept per field, so prompts stay bounded on large casts. */
+const MAX_AVOID_VALUES = 40;
+
+interface TrackedField {
+  path: string;
+  label: string;
+  field: SchemaField;
+}
+
+export interface CastDuplicate {
+  path: string;
+  label: string;
+  value: string;
+  count: number;
+}
+
+export interface CastDistribution {
+  path: string;
+  label: string;
+  counts: { value: string; count: number }[];
+}
+
+export interface CastDiversitySummary {
+  profileCount: number;
+  duplicates: CastDuplicate[];
+  distributions: CastDistribution[];
+}
+
+function collectFields(fields: SchemaField[], prefixPath = '', prefixLabel = ''): TrackedField[] {
+  const tracked: TrackedField[] = [];
+  for (const field of fields) {
+    const path = prefixPath ? `${prefixPath}.${field.key}` : field.key;
+    const label = prefixLabel ? `${prefixLabel} / ${field.label}` : field.label;
+    tracked.push({ path, label, field });
+    if (field.type === 'object' && field.fields?.length) {
+      tracked.push(...collectFields(field.fields, path, label));
+    }
+  }
+  return tracked;
+}
+
+/** Free-text identity fields (names, archetypes) that should not repeat across a cast. */
+function identityFields(schema: SchemaPreset): TrackedField[] {
+  return collectFields(schema.fields).filter(({ field }) => field.generationHint === 'identity' && field.type === 'text');
+}
+
+function choiceFields(schema: SchemaPreset): TrackedField[] {
+  return collectFields(schema.fields).filter(({ field }) => field.type === 'scale' || field.type === 'enum');
+}
+
+function choiceValues(field: SchemaField): string[] {
+  return (field.type === 'scale' ? field.levels : field.options) ?? [];
+}
+
+function readString(profile: Record<string, unknown>, path: string): string | null {
+  const value = getPathValue(profile, path);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function countChoices(field: TrackedField, profiles: Record<string, unknown>[]): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(choiceValues(field.field).map((value) => [value, 0]));
+  for (const profile of profiles) {
+    const value = readString(profile, field.path);
+    if (value) counts[value] = (counts[value] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** What earlier profiles in the cast already picked, for the next item's prompt. */
+export function buildCastContext(schema: SchemaPreset, profiles: Record<string, unknown>[]): CastContext {
+  const avoid: CastContext['avoid'] = {};
+  for (const { path } of identityFields(schema)) {
+    const values = Array.from(new Set(profiles.map((profile) => readString(profile, path)).filter((value): value is string => !!value)));
+    if (values.length > 0) avoid[path] = values.slice(-MAX_AVOID_VALUES);
+  }
+
+  const distribution: CastContext['distribution'] = {};
+  if (profiles.length > 0) {
+    for (const field of choiceFields(schema)) {
+      distribution[field.path] = countChoices(field, profiles);
+    }
+  }
+  return { avoid, distribution };
+}
+
+/** Repeated identity values and the spread of every scale and enum field across a finished cast. */
+export function summarizeCastDiversity(schema: SchemaPreset, profiles: Record<string, unknown>[]): CastDiversitySummary {
+  const duplicates: CastDuplicate[] = [];
+  for (const { path, label } of identityFields(schema)) {
+    const counts = new Map<string, { value: string; count: number }>();
+    for (const profile of profiles) {
+      const value = readString(profile, path);
+      if (!value) continue;
+      const key = value.toLowerCase();
+      const entry = counts.get(key) ?? { value, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+    for (const entry of counts.values()) {
+      if (entry.count > 1) duplicates.push({ path, label, ...entry });
+    }
+  }
+
+  const distributions = choiceFields(schema).map((field) => ({
+    path: field.path,
+    label: field.label,
+    counts: Object.entries(countChoices(field, profiles)).map(([value, count]) => ({ value, count })),
+  }));
+
+  return { profileCount: profiles.length, duplicates, distributions };
+}
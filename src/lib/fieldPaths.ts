@@ -0,0 +1,62 @@
+import type { SchemaField } from '@/types';
+
+/** True when `path` is one of `scopes` or nested under one. */
+export function isPathWithin(path: string, scopes: string[]): boolean {
+  return scopes.some((scope) => path === scope || path.startsWith(`${scope}.`));
+}
+
+function hasObjectChildren(field: SchemaField): boolean {
+  return field.type === 'object' && !!field.fields?.length;
+}
+
+/** The field a dotted path names, following object fields; null when there is none. */
+export function fieldAtPath(fields: SchemaField[], path: string): SchemaField | null {
+  const [key, ...rest] = path.split('.');
+  const field = fields.find((candidate) => candidate.key === key);
+  if (!field || rest.length === 0) return field ?? null;
+  return hasObjectChildren(field) ? fieldAtPath(field.fields!, rest.join('.')) : null;
+}
+
+/**
+ * Prunes `fields` to the subtrees the paths select. A path into an object keeps
+ * only that child (`stats.strength` keeps `stats` with just `strength`); a path
+ * to a field, or into an array of objects, keeps the whole field.
+ */
+export function selectFieldSubtree(fields: SchemaField[], paths: string[]): SchemaField[] {
+  const result: SchemaField[] = [];
+  for (const field of fields) {
+    const matching = paths.filter((path) => path === field.key || path.startsWith(`${field.key}.`));
+    if (matching.length === 0) continue;
+    if (matching.includes(field.key) || !hasObjectChildren(field)) {
+      result.push(field);
+      continue;
+    }
+    const children = selectFieldSubtree(field.fields!, matching.map((path) => path.slice(field.key.length + 1)));
+    if (children.length > 0) result.push({ ...field, fields: children });
+  }
+  return result;
+}
+
+/** The inverse of `selectFieldSubtree`: drops the selected subtrees and keeps everything else. */
+export function excludeFieldSubtree(fields: SchemaField[], paths: string[]): SchemaField[] {
+  const result: SchemaField[] = [];
+  for (const field of fields) {
+    const matching = paths.filter((path) => path === field.key || path.startsWith(`${field.key}.`));
+    if (matching.length === 0) {
+      result.push(field);
+      continue;
+    }
+    if (matching.includes(field.key) || !hasObjectChildren(field)) continue;
+    const children = excludeFieldSubtree(field.fields!, matching.map((path) => path.slice(field.key.length + 1)));
+    if (children.length > 0) result.push({ ...field, fields: children });
+  }
+  return result;
+}
+
+/** Paths of the leaves of a (possibly pruned) field tree; objects recurse, everything else is a leaf. */
+export function fieldLeafPaths(fields: SchemaField[], prefix = ''): string[] {
+  return fields.flatMap((field) => {
+    const path = prefix ? `${prefix}.${field.key}` : field.key;
+    return hasObjectChildren(field) ? fieldLeafPaths(field.fields!, path) : [path];
+  });
+}
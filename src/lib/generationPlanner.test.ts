@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { planGenerationOrder } from './generationPlanner';
+import type { GenerationHint, SchemaField } from '@/types';
+
+function field(key: string, generationHint?: GenerationHint, dependsOn?: string[]): SchemaField {
+  return { key, label: key, type: 'text', description: '', seedable: false, generationHint, dependsOn };
+}
+
+describe('planGenerationOrder', () => {
+  it('groups fields by the stage their hint names', () => {
+    const plan = planGenerationOrder([
+      field('backstory', 'narrative'),
+      field('name', 'identity'),
+      { key: 'warmth', label: 'Warmth', type: 'scale', description: '', seedable: false, levels: ['low', 'high'] },
+      field('quirk', 'behavioral'),
+    ]);
+    expect(plan.issues).toEqual([]);
+    expect(plan.passes.map((pass) => pass.keys)).toEqual([['name'], ['warmth'], ['backstory'], ['quirk']]);
+  });
+
+  it('moves a field to a pass after a dependency in the same or a later stage', () => {
+    const plan = planGenerationOrder([
+      field('name', 'identity', ['backstory']),
+      field('description', 'narrative'),
+      field('backstory', 'narrative', ['description']),
+    ]);
+    expect(plan.passes.map((pass) => pass.keys)).toEqual([['description'], ['backstory'], ['name']]);
+    expect(plan.passes[2].notes).toEqual(['name depends on backstory, so it is generated in a later pass.']);
+  });
+
+  it('reports each dependency cycle as an error and plans nothing', () => {
+    const plan = planGenerationOrder([field('a', 'narrative', ['b']), field('b', 'narrative', ['a']), field('c', 'identity')]);
+    expect(plan.passes).toEqual([]);
+    expect(plan.issues).toEqual([
+      { severity: 'error', message: 'Dependency cycle: a → b → a. Remove one dependsOn entry to break it.' },
+    ]);
+  });
+
+  it('warns about unknown dependencies and ignores them', () => {
+    const plan = planGenerationOrder([field('name', 'identity', ['nickname'])]);
+    expect(plan.passes.map((pass) => pass.keys)).toEqual([['name']]);
+    expect(plan.issues).toEqual([
+      { severity: 'warning', message: 'name depends on unknown field "nickname"; ignored.' },
+    ]);
+  });
+
+  it('ignores dependencies on a field nested in the same object', () => {
+    const plan = planGenerationOrder([
+      {
+        key: 'stats',
+        label: 'Stats',
+        type: 'object',
+        description: '',
+        seedable: false,
+        generationHint: 'calibration',
+        fields: [field('wit'), field('summary', undefined, ['wit', 'stats.wit'])],
+      },
+    ]);
+    expect(plan.issues).toEqual([]);
+    expect(plan.passes.map((pass) => pass.keys)).toEqual([['stats']]);
+  });
+});
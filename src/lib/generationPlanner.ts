@@ -0,0 +1,167 @@
+import type { GenerationHint, SchemaField } from '@/types';
+
+export interface PlannedPass {
+  keys: string[];
+  /** What the pass covers */
+  summary: string;
+  /** Fields placed later than their hint suggests, and why */
+  notes: string[];
+}
+
+export interface PlanIssue {
+  /** Errors block the plan; warnings are dropped from it */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface GenerationPlan {
+  /** Empty when an error prevents planning */
+  passes: PlannedPass[];
+  issues: PlanIssue[];
+}
+
+/** Stage each hint belongs to: identity, then scales, then narrative, then behavior and calibration. */
+const HINT_STAGE: Record<GenerationHint, number> = {
+  identity: 0,
+  narrative: 2,
+  behavioral: 3,
+  calibration: 3,
+};
+
+const SCALE_TYPES = new Set(['scale', 'enum', 'number', 'boolean']);
+
+const STAGE_SUMMARIES = [
+  'Identity: names and the core concept come first so everything else can build on them.',
+  'Scales and choices: calibration values picked once the identity is set.',
+  'Narrative: descriptions and backstory that explain the identity and scales.',
+  'Behavior and calibration: actionable traits and references drawn from the full picture.',
+];
+
+const FOLLOW_UP_SUMMARY = 'Follow-up: fields that build on fields generated in the pass before.';
+
+function collectNestedKeys(fields: SchemaField[]): Set<string> {
+  const keys = new Set<string>();
+  for (const field of fields) {
+    keys.add(field.key);
+    if (field.fields) collectNestedKeys(field.fields).forEach((key) => keys.add(key));
+  }
+  return keys;
+}
+
+function collectDependsOn(field: SchemaField): string[] {
+  return [...(field.dependsOn ?? []), ...(field.fields ?? []).flatMap(collectDependsOn)];
+}
+
+function baseStage(field: SchemaField): { stage: number; note?: string } {
+  if (field.generationHint) return { stage: HINT_STAGE[field.generationHint] };
+  if (SCALE_TYPES.has(field.type)) return { stage: 1 };
+  return { stage: 2, note: `${field.key} has no generation hint, so it is grouped with narrative fields.` };
+}
+
+/** Returns every dependency cycle once, as the keys along it with the first key repeated at the end. */
+function findCycles(keys: string[], edges: Map<string, string[]>): string[][] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (key: string) => {
+    state.set(key, 'visiting');
+    stack.push(key);
+    for (const dep of edges.get(key) ?? []) {
+      if (state.get(dep) === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(dep)), dep]);
+      } else if (!state.has(dep)) {
+        visit(dep);
+      }
+    }
+    stack.pop();
+    state.set(key, 'done');
+  };
+
+  for (const key of keys) {
+    if (!state.has(key)) visit(key);
+  }
+  return cycles;
+}
+
+/**
+ * Derives a `generationOrder` for the schema's top-level fields. Each field
+ * starts in the stage its `generationHint` names (unhinted scales and choices
+ * go with the scales stage). A field that depends on something in the same or a
+ * later stage moves to the stage after it, so every dependency is generated in
+ * an earlier pass than the fields that use it. Cycles cannot be ordered and are
+ * reported as errors. Empty stages are dropped.
+ */
+export function planGenerationOrder(fields: SchemaField[]): GenerationPlan {
+  const issues: PlanIssue[] = [];
+  const topKeys = new Set(fields.map((field) => field.key));
+  const edges = new Map<string, string[]>();
+
+  for (const field of fields) {
+    const nestedKeys = field.fields ? collectNestedKeys(field.fields) : new Set<string>();
+    const deps = new Set<string>();
+    for (const path of collectDependsOn(field)) {
+      const root = path.split('.')[0];
+      if (root === field.key || nestedKeys.has(root)) continue;
+      if (!topKeys.has(root)) {
+        issues.push({ severity: 'warning', message: `${field.key} depends on unknown field "${path}"; ignored.` });
+        continue;
+      }
+      deps.add(root);
+    }
+    edges.set(field.key, Array.from(deps));
+  }
+
+  const cycles = findCycles(fields.map((field) => field.key), edges);
+  if (cycles.length > 0) {
+    for (const cycle of cycles) {
+      issues.push({ severity: 'error', message: `Dependency cycle: ${cycle.join(' → ')}. Remove one dependsOn entry to break it.` });
+    }
+    return { passes: [], issues };
+  }
+
+  const fieldMap = new Map(fields.map((field) => [field.key, field]));
+  const stages = new Map<string, number>();
+  const baseStages = new Map<string, number>();
+  const notes = new Map<string, string>();
+
+  const resolveStage = (key: string): number => {
+    const known = stages.get(key);
+    if (known !== undefined) return known;
+
+    const base = baseStage(fieldMap.get(key)!);
+    baseStages.set(key, base.stage);
+    let stage = base.stage;
+    let movedBy: string | null = null;
+    for (const dep of edges.get(key) ?? []) {
+      const depStage = resolveStage(dep);
+      if (depStage >= stage) {
+        stage = depStage + 1;
+        movedBy = dep;
+      }
+    }
+    stages.set(key, stage);
+    if (movedBy) {
+      notes.set(key, `${key} depends on ${movedBy}, so it is generated in a later pass.`);
+    } else if (base.note) {
+      notes.set(key, base.note);
+    }
+    return stage;
+  };
+
+  const grouped = new Map<number, string[]>();
+  for (const field of fields) {
+    const stage = resolveStage(field.key);
+    grouped.set(stage, [...(grouped.get(stage) ?? []), field.key]);
+  }
+
+  const passes = Array.from(grouped.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([stage, keys]) => ({
+      keys,
+      // A pass holding only fields moved there by their dependencies is not that stage's pass.
+      summary: keys.some((key) => baseStages.get(key) === stage) ? STAGE_SUMMARIES[stage] : FOLLOW_UP_SUMMARY,
+      notes: keys.map((key) => notes.get(key)).filter((note): note is string => !!note),
+    }));
+  return { passes, issues };
+}
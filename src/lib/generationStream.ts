@@ -0,0 +1,69 @@
+import { createPartialJsonParser, type PartialJsonParser } from './partialJson';
+import { cloneJson, mergePathValues } from './workspace';
+
+export type StreamPassStatus = 'queued' | 'running' | 'complete';
+
+export interface StreamPass {
+  index: number;
+  /** Field paths the pass writes; empty until it starts */
+  paths: string[];
+  status: StreamPassStatus;
+}
+
+/** Live view of a generation run, rebuilt from its callbacks */
+export interface GenerationStreamState {
+  /** Finished passes plus whatever the running passes have streamed so far */
+  profile: Record<string, unknown>;
+  passes: StreamPass[];
+  /** Paths being written right now, one per running pass at most */
+  activePaths: string[];
+}
+
+export interface GenerationStream {
+  startPass: (passIndex: number, totalPasses: number, paths: string[]) => void;
+  pushToken: (token: string, passIndex?: number) => void;
+  /** `profile` is the merged output of every finished pass */
+  completePass: (passIndex: number, profile: Record<string, unknown>) => void;
+  snapshot: () => GenerationStreamState;
+}
+
+/**
+ * Tracks a run's passes and parses each running pass's token stream, so a
+ * preview can show fields filling in. Once a pass finishes, its validated
+ * output replaces what was parsed from the stream.
+ */
+export function createGenerationStream(): GenerationStream {
+  let totalPasses = 1;
+  let finished: Record<string, unknown> = {};
+  const started = new Map<number, { paths: string[]; parser: PartialJsonParser | null }>();
+
+  return {
+    startPass: (passIndex, passTotal, paths) => {
+      totalPasses = passTotal;
+      started.set(passIndex, { paths, parser: createPartialJsonParser() });
+    },
+    pushToken: (token, passIndex = 0) => {
+      started.get(passIndex)?.parser?.push(token);
+    },
+    completePass: (passIndex, profile) => {
+      finished = profile;
+      const pass = started.get(passIndex);
+      if (pass) pass.parser = null;
+    },
+    snapshot: () => {
+      let profile = cloneJson(finished);
+      const activePaths: string[] = [];
+      const passes: StreamPass[] = Array.from({ length: totalPasses }, (_, index) => {
+        const pass = started.get(index);
+        if (!pass) return { index, paths: [], status: 'queued' };
+        if (pass.parser) {
+          const live = pass.parser.snapshot();
+          profile = mergePathValues(profile, live.value, pass.paths);
+          if (live.activePath) activePaths.push(live.activePath);
+        }
+        return { index, paths: pass.paths, status: pass.parser ? 'running' : 'complete' };
+      });
+      return { profile, passes, activePaths };
+    },
+  };
+}
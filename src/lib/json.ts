@@ -0,0 +1,21 @@
+/**
+ * Pull the JSON object out of a model response that may be wrapped in
+ * code fences or surrounded by stray prose.
+ */
+export function extractJsonObject(raw: string): string {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) return trimmed;
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced?.[1]) return fenced[1].trim();
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start >= 0 && end > start) return trimmed.slice(start, end + 1);
+
+  throw new Error('Model did not return valid JSON.');
+}
+
+export function parseJsonObject<T = Record<string, unknown>>(raw: string): T {
+  return JSON.parse(extractJsonObject(raw)) as T;
+}
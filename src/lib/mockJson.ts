@@ -0,0 +1,133 @@
+/** Returns floats in [0, 1); the same seed always yields the same sequence. */
+export type SeededRandom = () => number;
+
+/** FNV-1a, used to fold the seed and prompts into one 32-bit RNG seed. */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 over a hash of every part, so identical inputs replay identically. */
+export function createSeededRandom(...parts: (string | number)[]): SeededRandom {
+  let state = hashString(parts.join('\u0000'));
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const ADJECTIVES = [
+  'quiet', 'restless', 'meticulous', 'wry', 'stubborn', 'gentle', 'guarded', 'curious',
+  'brash', 'patient', 'sardonic', 'earnest', 'wary', 'bright', 'weathered', 'exacting',
+];
+const NOUNS = [
+  'cartographer', 'lighthouse', 'ledger', 'harbor', 'orchard', 'archive', 'engine', 'market',
+  'signal', 'garden', 'workshop', 'library', 'river', 'caravan', 'observatory', 'kitchen',
+];
+const VERBS = [
+  'keeps', 'mends', 'questions', 'trades', 'guards', 'charts', 'collects', 'avoids',
+  'rebuilds', 'studies', 'bargains over', 'remembers',
+];
+const NAMES = ['Mara Quill', 'Tobin Vale', 'Ines Harrow', 'Oskar Lune', 'Petra Sloane', 'Dov Ashby'];
+const REFERENCES = [
+  'Sherlock Holmes (Sherlock Holmes)', 'Leslie Knope (Parks and Recreation)', 'Geralt (The Witcher)',
+  'Hermione Granger (Harry Potter)', 'Columbo (Columbo)', 'Samwise Gamgee (The Lord of the Rings)',
+  'Ripley (Alien)', 'Frasier Crane (Frasier)',
+];
+
+function pick<T>(rng: SeededRandom, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+function mockSentence(rng: SeededRandom): string {
+  const sentence = `${pick(rng, ADJECTIVES)} ${pick(rng, NOUNS)} who ${pick(rng, VERBS)} the ${pick(rng, NOUNS)}`;
+  return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+}
+
+function mockPhrase(rng: SeededRandom): string {
+  return `${pick(rng, ADJECTIVES)} ${pick(rng, NOUNS)}`;
+}
+
+function mockString(key: string, node: Record<string, unknown>, rng: SeededRandom): string {
+  const listCount = node['x-listCount'];
+  if (typeof listCount === 'number') {
+    const description = typeof node.description === 'string' ? node.description : '';
+    const pool = /characters in "Name \(Source\)"/.test(description) ? REFERENCES : ADJECTIVES;
+    return Array.from({ length: listCount }, () => pick(rng, pool)).join(', ');
+  }
+  if (/name/i.test(key)) return pick(rng, NAMES);
+  return mockSentence(rng);
+}
+
+/**
+ * Synthesizes a value that satisfies a JSON schema built by `buildJsonSchema`:
+ * enums and scale levels pick an allowed value, comma-separated lists and
+ * ranked arrays hit their exact counts, and nested objects recurse.
+ */
+export function synthesizeFromJsonSchema(node: Record<string, unknown>, rng: SeededRandom, key = ''): unknown {
+  const allowed = Array.isArray(node.enum) ? node.enum : null;
+  if (allowed && allowed.length > 0) return pick(rng, allowed);
+
+  switch (node.type) {
+    case 'object': {
+      const properties = (node.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([childKey, child]) => [childKey, synthesizeFromJsonSchema(child, rng, childKey)])
+      );
+    }
+    case 'array': {
+      const items = (node.items ?? { type: 'string' }) as Record<string, unknown>;
+      const count = typeof node.minItems === 'number' ? node.minItems : 2 + Math.floor(rng() * 2);
+      const description = typeof node.description === 'string' ? node.description : '';
+      const numbered = /explicitly numbered/.test(description);
+      return Array.from({ length: count }, (_, index) =>
+        numbered ? `${index + 1}. ${mockPhrase(rng)}` : synthesizeFromJsonSchema(items, rng, key)
+      );
+    }
+    case 'number':
+    case 'integer':
+      return Math.floor(rng() * 100);
+    case 'boolean':
+      return rng() < 0.5;
+    default:
+      return mockString(key, node, rng);
+  }
+}
+
+function synthesizeFromShapeType(type: string, rng: SeededRandom): unknown {
+  const literals = [...type.matchAll(/"([^"]*)"/g)].map((match) => match[1]);
+  if (type.includes('|') && literals.length > 0) return pick(rng, literals);
+  if (type === 'string[]') return Array.from({ length: 6 }, () => `Make it more ${pick(rng, ADJECTIVES)}`);
+  if (type.endsWith('[]')) return [];
+  if (type.startsWith('{') || type === 'object') return {};
+  if (type === 'number') return Math.floor(rng() * 100);
+  if (type === 'boolean') return rng() < 0.5;
+  return mockSentence(rng);
+}
+
+/**
+ * Answers a JSON-mode prompt without a response schema from the shape block
+ * it asks for, e.g. `Return JSON only: { "reply": string }`. Returns an empty
+ * object when the prompt declares no shape.
+ */
+export function synthesizeFromPromptShape(prompt: string, rng: SeededRandom): Record<string, unknown> {
+  const marker = prompt.search(/JSON only/i);
+  const start = marker === -1 ? -1 : prompt.indexOf('{', marker);
+  if (start === -1) return {};
+  const end = prompt.indexOf('\n}', start);
+  const block = prompt.slice(start + 1, end === -1 ? undefined : end);
+
+  const shaped: Record<string, unknown> = {};
+  for (const line of block.split('\n')) {
+    const match = line.match(/^\s*"([\w-]+)":\s*(.+?),?\s*$/);
+    if (match) shaped[match[1]] = synthesizeFromShapeType(match[2], rng);
+  }
+  return shaped;
+}
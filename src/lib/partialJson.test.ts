@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createPartialJsonParser } from './partialJson';
+
+function parse(chunks: string[]) {
+  const parser = createPartialJsonParser();
+  for (const chunk of chunks) parser.push(chunk);
+  return parser.snapshot();
+}
+
+describe('createPartialJsonParser', () => {
+  it('reads a complete object streamed one character at a time', () => {
+    const json = '{"name":"Mara","age":34,"calm":true,"tags":["dry","wry"],"stats":{"wit":"high"},"note":null}';
+    const snapshot = parse(Array.from(json));
+    expect(snapshot.value).toEqual(JSON.parse(json));
+    expect(snapshot.done).toBe(true);
+    expect(snapshot.activePath).toBeNull();
+  });
+
+  it('shows a string as far as it has streamed and names the field being written', () => {
+    const snapshot = parse(['{"name":"Ma', 'ra","stats":{"wit":"hi']);
+    expect(snapshot.value).toEqual({ name: 'Mara', stats: { wit: 'hi' } });
+    expect(snapshot.activePath).toBe('stats.wit');
+    expect(snapshot.done).toBe(false);
+  });
+
+  it('holds back numbers and literals until they end', () => {
+    expect(parse(['{"age":3']).value).toEqual({});
+    expect(parse(['{"age":34', ',']).value).toEqual({ age: 34 });
+  });
+
+  it('decodes escapes, including unicode escapes split across chunks', () => {
+    const snapshot = parse(['{"quote":"she said \\"hi\\"\\n\\u00', 'e9"}']);
+    expect(snapshot.value).toEqual({ quote: 'she said "hi"\né' });
+  });
+
+  it('ignores text around the root object', () => {
+    const snapshot = parse(['```json\n{"name":"Mara"}\n```', '{"name":"Other"}']);
+    expect(snapshot.value).toEqual({ name: 'Mara' });
+    expect(snapshot.done).toBe(true);
+  });
+
+  it('returns snapshots that later chunks do not change', () => {
+    const parser = createPartialJsonParser();
+    parser.push('{"tags":["a"');
+    const early = parser.snapshot();
+    parser.push(',"b"]}');
+    expect(early.value).toEqual({ tags: ['a'] });
+    expect(parser.snapshot().value).toEqual({ tags: ['a', 'b'] });
+  });
+});
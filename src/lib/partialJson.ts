@@ -0,0 +1,187 @@
+import { cloneJson } from './workspace';
+
+export interface PartialJsonSnapshot {
+  /** Everything parsed so far; strings being written are included as far as they have streamed */
+  value: Record<string, unknown>;
+  /** Dotted path of the value being written, without array indexes; null between values or once done */
+  activePath: string | null;
+  /** The root object has closed */
+  done: boolean;
+}
+
+export interface PartialJsonParser {
+  push: (chunk: string) => void;
+  snapshot: () => PartialJsonSnapshot;
+}
+
+type Frame =
+  | { kind: 'object'; value: Record<string, unknown>; key: string | null; state: 'key' | 'colon' | 'value' | 'comma' }
+  | { kind: 'array'; value: unknown[]; state: 'value' | 'comma'; pending: boolean };
+
+const ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+const LITERAL_CHAR = /[0-9a-zA-Z.+-]/;
+const WHITESPACE = /\s/;
+
+function parseLiteral(text: string): { value: unknown } | null {
+  if (text === 'true') return { value: true };
+  if (text === 'false') return { value: false };
+  if (text === 'null') return { value: null };
+  const number = Number(text);
+  return Number.isFinite(number) ? { value: number } : null;
+}
+
+/**
+ * Reads a JSON object one chunk at a time, as a model streams it, keeping a
+ * best-effort partial object. Text before the first `{` (such as a code
+ * fence) and anything after the root object closes are ignored. Numbers and
+ * literals appear once complete; strings appear as they stream.
+ */
+export function createPartialJsonParser(): PartialJsonParser {
+  let root: Record<string, unknown> | null = null;
+  let done = false;
+  const stack: Frame[] = [];
+  let text: { buffer: string; isKey: boolean; escape: string | null } | null = null;
+  let literal: string | null = null;
+
+  const setValue = (value: unknown) => {
+    const frame = stack[stack.length - 1];
+    if (!frame) return;
+    if (frame.kind === 'object') {
+      if (frame.key !== null) frame.value[frame.key] = value;
+    } else if (frame.pending) {
+      frame.value[frame.value.length - 1] = value;
+    } else {
+      frame.value.push(value);
+      frame.pending = true;
+    }
+  };
+
+  const close = () => {
+    stack.pop();
+    if (stack.length === 0) done = true;
+  };
+
+  const beginValue = (char: string) => {
+    const frame = stack[stack.length - 1];
+    if (char === '{') {
+      const value: Record<string, unknown> = {};
+      setValue(value);
+      frame.state = 'comma';
+      stack.push({ kind: 'object', value, key: null, state: 'key' });
+    } else if (char === '[') {
+      const value: unknown[] = [];
+      setValue(value);
+      frame.state = 'comma';
+      stack.push({ kind: 'array', value, state: 'value', pending: false });
+    } else if (char === '"') {
+      setValue('');
+      frame.state = 'comma';
+      text = { buffer: '', isKey: false, escape: null };
+    } else if (LITERAL_CHAR.test(char)) {
+      frame.state = 'comma';
+      literal = char;
+    }
+  };
+
+  const readStringChar = (current: NonNullable<typeof text>, char: string) => {
+    if (current.escape === '') {
+      if (char === 'u') {
+        current.escape = 'u';
+        return;
+      }
+      current.buffer += ESCAPES[char] ?? char;
+      current.escape = null;
+    } else if (current.escape !== null) {
+      current.escape += char;
+      if (current.escape.length < 5) return;
+      current.buffer += String.fromCharCode(Number.parseInt(current.escape.slice(1), 16) || 0xfffd);
+      current.escape = null;
+    } else if (char === '\\') {
+      current.escape = '';
+      return;
+    } else if (char === '"') {
+      text = null;
+      const frame = stack[stack.length - 1];
+      if (current.isKey && frame.kind === 'object') {
+        frame.key = current.buffer;
+        frame.state = 'colon';
+      }
+      return;
+    } else {
+      current.buffer += char;
+    }
+    if (!current.isKey) setValue(current.buffer);
+  };
+
+  const step = (char: string) => {
+    if (done) return;
+    if (text) {
+      readStringChar(text, char);
+      return;
+    }
+    if (literal !== null) {
+      if (LITERAL_CHAR.test(char)) {
+        literal += char;
+        return;
+      }
+      const parsed = parseLiteral(literal);
+      if (parsed) setValue(parsed.value);
+      literal = null;
+    }
+
+    const frame = stack[stack.length - 1];
+    if (!frame) {
+      if (char === '{') {
+        root = {};
+        stack.push({ kind: 'object', value: root, key: null, state: 'key' });
+      }
+      return;
+    }
+    if (WHITESPACE.test(char)) return;
+
+    if (frame.kind === 'object') {
+      if (frame.state === 'key') {
+        if (char === '"') text = { buffer: '', isKey: true, escape: null };
+        else if (char === '}') close();
+      } else if (frame.state === 'colon') {
+        if (char === ':') frame.state = 'value';
+      } else if (frame.state === 'value') {
+        beginValue(char);
+      } else if (char === ',') {
+        frame.state = 'key';
+      } else if (char === '}') {
+        close();
+      }
+      return;
+    }
+
+    if (frame.state === 'value') {
+      if (char === ']') close();
+      else beginValue(char);
+    } else if (char === ',') {
+      frame.state = 'value';
+      frame.pending = false;
+    } else if (char === ']') {
+      close();
+    }
+  };
+
+  const activePath = (): string | null => {
+    if (done) return null;
+    const keys: string[] = [];
+    stack.forEach((frame, index) => {
+      if (frame.kind !== 'object' || frame.key === null) return;
+      const isLast = index === stack.length - 1;
+      const writing = frame.state === 'value' || (frame.state === 'comma' && (text !== null || literal !== null));
+      if (!isLast || writing) keys.push(frame.key);
+    });
+    return keys.length > 0 ? keys.join('.') : null;
+  };
+
+  return {
+    push: (chunk) => {
+      for (const char of chunk) step(char);
+    },
+    snapshot: () => ({ value: root ? cloneJson(root) : {}, activePath: activePath(), done }),
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { resolveGenerationPasses, resolvePassDependencies } from './promptBuilder';
+import type { SchemaField, SchemaPreset } from '@/types';
+
+function text(key: string, dependsOn?: string[]): SchemaField {
+  return { key, label: key, type: 'text', description: '', seedable: false, dependsOn };
+}
+
+function schemaWith(fields: SchemaField[], generationOrder: string[][]): SchemaPreset {
+  return { id: 'schema', name: 'Test', version: 1, createdAt: '', updatedAt: '', fields, generationOrder };
+}
+
+describe('resolvePassDependencies', () => {
+  it('keeps the strict order when no field declares dependsOn', () => {
+    const schema = schemaWith([text('name'), text('scales'), text('backstory')], [['name'], ['scales'], ['backstory']]);
+    expect(resolvePassDependencies(resolveGenerationPasses(schema))).toEqual([[], [0], [0, 1]]);
+  });
+
+  it('lets only passes that declare dependsOn run alongside earlier passes', () => {
+    const schema = schemaWith(
+      [
+        text('name'),
+        text('scales'),
+        text('backstory', ['name']),
+        text('quirk', ['backstory']),
+        text('notes'),
+      ],
+      [['name'], ['scales'], ['backstory'], ['quirk']]
+    );
+    // scales and the trailing pass holding `notes` declare nothing, so they wait for every earlier pass.
+    expect(resolvePassDependencies(resolveGenerationPasses(schema))).toEqual([[], [0], [0], [2], [0, 1, 2, 3]]);
+  });
+
+  it('waits on the pass producing a nested path', () => {
+    const schema = schemaWith(
+      [
+        {
+          key: 'stats',
+          label: 'Stats',
+          type: 'object',
+          description: '',
+          seedable: false,
+          fields: [text('wit'), text('grit')],
+        },
+        text('summary', ['stats.grit']),
+      ],
+      [['stats.wit'], ['stats.grit'], ['summary']]
+    );
+    expect(resolvePassDependencies(resolveGenerationPasses(schema))).toEqual([[], [0], [1]]);
+  });
+});
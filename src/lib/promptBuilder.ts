@@ -1,9 +1,15 @@
-import type { SchemaPreset, SchemaField, GenerationHint } from '@/types';
+import type { SchemaPreset, SchemaField, GenerationHint, GenerationConstraints, CastContext } from '@/types';
+import { constraintPaths, describeConstraint } from './constraints';
+import { excludeFieldSubtree, fieldLeafPaths, isPathWithin, selectFieldSubtree } from './fieldPaths';
 
 // ============================================================
 // JSON Schema conversion (per-field)
 // ============================================================
 
+/**
+ * `x-listCount` marks comma-separated string fields (trait lists, references)
+ * with their exact item count so the validator can check them.
+ */
 function fieldToJsonSchema(field: SchemaField): Record<string, unknown> {
   const desc = field.description || field.label;
 
@@ -22,9 +28,17 @@ function fieldToJsonSchema(field: SchemaField): Record<string, unknown> {
     case 'scale':
       return { type: 'string', enum: field.levels ?? [], description: `${desc} (ordered scale: ${(field.levels ?? []).join(' → ')})` };
     case 'trait-list':
-      return { type: 'string', description: `${desc} — a comma-separated list of exactly ${field.traitCount ?? 5} ${field.traitConstraint ?? 'descriptive adjectives'}` };
+      return {
+        type: 'string',
+        'x-listCount': field.traitCount ?? 5,
+        description: `${desc} — a comma-separated list of exactly ${field.traitCount ?? 5} ${field.traitConstraint ?? 'descriptive adjectives'}`,
+      };
     case 'references':
-      return { type: 'string', description: `${desc} — ${field.referenceCount ?? 3} well-known fictional/real characters in "Name (Source)" format, comma-separated` };
+      return {
+        type: 'string',
+        'x-listCount': field.referenceCount ?? 3,
+        description: `${desc} — ${field.referenceCount ?? 3} well-known fictional/real characters in "Name (Source)" format, comma-separated`,
+      };
     case 'ranked-likes': {
       const count = field.rankedItemCount ?? 5;
       const descriptor = field.rankedDescriptor ?? 'things';
@@ -132,7 +146,8 @@ ${schema.description ? `Schema description: ${schema.description}` : ''}`;
 export function buildUserPrompt(
   schema: SchemaPreset,
   userInput: string,
-  jsonSchema: Record<string, unknown>
+  jsonSchema: Record<string, unknown>,
+  constraints: GenerationConstraints = { seeds: {} }
 ): string {
   const brief = userInput.trim();
   const hasBrief = brief.length > 0;
@@ -153,6 +168,18 @@ export function buildUserPrompt(
     prompt += `\nGenerate a NEW profile at this same level of quality. Do not copy or closely imitate the examples — create something original.\n`;
   }
 
+  const seedLines = formatSeedLines(constraints.seeds);
+  if (seedLines.length > 0) {
+    prompt += `\nFixed field values (hard constraints). Use these exact values and build every other field around them:\n${seedLines.join('\n')}\n`;
+  }
+  if (constraints.cast) {
+    prompt += formatCastContext(constraints.cast, constraints.seeds);
+  }
+  const ruleLines = formatRuleLines(schema);
+  if (ruleLines.length > 0) {
+    prompt += `\nHard rules between fields. The profile must satisfy every one:\n${ruleLines.join('\n')}\n`;
+  }
+
   if (hasBrief) {
     prompt += `\nUser brief (the character must satisfy this brief):\n${brief}\n`;
     prompt += `\nInterpret the brief and fill ALL schema fields, even if the user does not mention each one explicitly.`;
@@ -169,6 +196,51 @@ export function buildUserPrompt(
   return prompt;
 }
 
+// ============================================================
+// Consistency review prompt building
+// ============================================================
+
+export function buildConsistencySystemPrompt(schema: SchemaPreset): string {
+  return `You are a strict continuity editor reviewing a generated character profile for contradictions between its fields.
+
+You MUST respond with valid JSON only.
+
+WHAT TO FLAG:
+- A field that contradicts a field it depends on, or that its dependencies do not explain.
+- Scales and choices that do not form a coherent personality (e.g. "Quiet" on Chattiness with "Redirective" on Steering).
+- Narrative fields that do not explain the identity and scales, or introduce facts that conflict with them.
+- Behavioral fields that are vague, or would make the character act against its scales and narrative.
+- Calibration references whose personality or energy does not match the profile.
+
+RULES:
+- Report only real contradictions or clear mismatches. Style preferences are not issues.
+- List every field path involved; the fix regenerates exactly those paths, so include the field that should change.
+- Suggested fixes must say concretely what to change and keep everything else intact.
+- Return an empty list when the profile is consistent.
+
+Schema name: ${schema.name}
+${schema.description ? `Schema description: ${schema.description}` : ''}`;
+}
+
+export function buildConsistencyUserPrompt(
+  schema: SchemaPreset,
+  profile: Record<string, unknown>,
+  userInput?: string
+): string {
+  const brief = userInput?.trim();
+  const annotations = collectHintAnnotations(schema.fields);
+  let prompt = `Profile to review:\n\n\`\`\`json\n${JSON.stringify(profile, null, 2)}\n\`\`\`\n`;
+  prompt += `\nSchema fields:\n\`\`\`json\n${JSON.stringify(buildJsonSchema(schema), null, 2)}\n\`\`\`\n`;
+  if (annotations.length > 0) {
+    prompt += `\nField relations and intent to check against:\n${annotations.join('\n')}\n`;
+  }
+  if (brief) {
+    prompt += `\nOriginal user brief (the profile should satisfy it):\n${brief}\n`;
+  }
+  prompt += `\nRespond with ONLY the JSON object: { "issues": [{ "paths": string[], "explanation": string, "suggestedFix": string }] }.`;
+  return prompt;
+}
+
 // ============================================================
 // Multi-pass prompt building
 // ============================================================
@@ -205,11 +277,18 @@ export function buildPassUserPrompt(
   passJsonSchema: Record<string, unknown>,
   priorOutput: Record<string, unknown>,
   userInput: string,
-  passIndex: number
+  passIndex: number,
+  constraints: GenerationConstraints = { seeds: {} }
 ): string {
+  const { seeds } = constraints;
   const brief = userInput.trim();
   const hasBrief = brief.length > 0;
   const hasPrior = Object.keys(priorOutput).length > 0;
+  const passPaths = fieldLeafPaths(passFields);
+  const passSeeds = Object.fromEntries(Object.entries(seeds).filter(([path]) => isPathWithin(path, passPaths)));
+  const laterSeeds = Object.fromEntries(
+    Object.entries(seeds).filter(([path]) => !isPathWithin(path, passPaths) && !hasValueAt(priorOutput, path))
+  );
 
   let prompt = '';
 
@@ -229,6 +308,21 @@ export function buildPassUserPrompt(
 
   // The fields to generate in this pass
   prompt += `Now generate ONLY the following fields as a JSON object:\n\n\`\`\`json\n${JSON.stringify(passJsonSchema, null, 2)}\n\`\`\`\n`;
+  const passSeedLines = formatSeedLines(passSeeds);
+  if (passSeedLines.length > 0) {
+    prompt += `\nFixed field values for this pass (hard constraints). Use these exact values:\n${passSeedLines.join('\n')}\n`;
+  }
+  const laterSeedLines = formatSeedLines(laterSeeds);
+  if (laterSeedLines.length > 0) {
+    prompt += `\nThese values are already fixed for fields in later passes. Stay consistent with them:\n${laterSeedLines.join('\n')}\n`;
+  }
+  if (constraints.cast) {
+    prompt += formatCastContext(constraints.cast, seeds, passPaths);
+  }
+  const ruleLines = formatRuleLines(schema, passPaths);
+  if (ruleLines.length > 0) {
+    prompt += `\nHard rules involving this pass's fields. The output must satisfy every one, given the fields already established:\n${ruleLines.join('\n')}\n`;
+  }
   if (hasBrief) {
     prompt += `\nUser brief:\n${brief}\n`;
   } else {
@@ -270,6 +364,52 @@ export function buildPassUserPrompt(
 // Helpers
 // ============================================================
 
+function formatSeedLines(seeds: Record<string, unknown>): string[] {
+  return Object.entries(seeds).map(([path, value]) => `- "${path}": ${JSON.stringify(value)}`);
+}
+
+/** Schema constraints as prompt lines; with `scopes`, only rules reading a field in or around those paths. */
+function formatRuleLines(schema: SchemaPreset, scopes?: string[]): string[] {
+  return (schema.constraints ?? [])
+    .filter((constraint) => !scopes || constraintPaths(constraint).some((path) => (
+      isPathWithin(path, scopes) || scopes.some((scope) => isPathWithin(scope, [path]))
+    )))
+    .map((constraint) => `- ${describeConstraint(constraint)}`);
+}
+
+function hasValueAt(object: Record<string, unknown>, path: string): boolean {
+  let current: unknown = object;
+  for (const part of path.split('.')) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return false;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current !== undefined;
+}
+
+/**
+ * Lists identity values other cast members already use and how often each
+ * scale/enum value has been picked. Seeded paths are left out; with
+ * `scopes`, only paths at or under those paths are included.
+ */
+function formatCastContext(cast: CastContext, seeds: Record<string, unknown>, scopes?: string[]): string {
+  const include = (path: string) => !(path in seeds) && (!scopes || isPathWithin(path, scopes));
+  const avoidLines = Object.entries(cast.avoid)
+    .filter(([path]) => include(path))
+    .map(([path, values]) => `- "${path}": ${values.map((value) => JSON.stringify(value)).join(', ')}`);
+  const spreadLines = Object.entries(cast.distribution)
+    .filter(([path]) => include(path))
+    .map(([path, counts]) => `- "${path}": ${Object.entries(counts).map(([value, count]) => `${value} ×${count}`).join(', ')}`);
+
+  let section = '';
+  if (avoidLines.length > 0) {
+    section += `\nOther characters in this cast already use these values. Do not reuse them or close variants:\n${avoidLines.join('\n')}\n`;
+  }
+  if (spreadLines.length > 0) {
+    section += `\nPicks made so far across the cast. Favour less-used values where the brief allows, so the cast stays varied:\n${spreadLines.join('\n')}\n`;
+  }
+  return section;
+}
+
 function collectHintAnnotations(fields: SchemaField[], prefix = ''): string[] {
   const annotations: string[] = [];
   for (const field of fields) {
@@ -288,8 +428,10 @@ function collectHintAnnotations(fields: SchemaField[], prefix = ''): string[] {
 }
 
 /**
- * Resolve generationOrder field keys to actual SchemaField objects.
- * Returns array of passes, each being an array of SchemaFields.
+ * Resolve generationOrder entries to SchemaField objects. Entries may be
+ * top-level keys or nested paths (`stats.strength`); a nested path puts only
+ * that part of the object in the pass, so one object can span passes. Each
+ * path belongs to the first pass that lists it.
  */
 export function resolveGenerationPasses(schema: SchemaPreset): SchemaField[][] {
   if (!schema.generationOrder || schema.generationOrder.length === 0) {
@@ -297,30 +439,19 @@ export function resolveGenerationPasses(schema: SchemaPreset): SchemaField[][] {
     return [schema.fields];
   }
 
-  const fieldMap = new Map<string, SchemaField>();
-  for (const field of schema.fields) {
-    fieldMap.set(field.key, field);
-  }
-
   const passes: SchemaField[][] = [];
-  const assigned = new Set<string>();
-
-  for (const passKeys of schema.generationOrder) {
-    const passFields: SchemaField[] = [];
-    for (const key of passKeys) {
-      const field = fieldMap.get(key);
-      if (field) {
-        passFields.push(field);
-        assigned.add(key);
-      }
-    }
+  const assigned: string[] = [];
+
+  for (const passPaths of schema.generationOrder) {
+    const passFields = excludeFieldSubtree(selectFieldSubtree(schema.fields, passPaths), assigned);
     if (passFields.length > 0) {
       passes.push(passFields);
+      assigned.push(...fieldLeafPaths(passFields));
     }
   }
 
   // Any fields not in generationOrder go in a final pass
-  const remaining = schema.fields.filter((f) => !assigned.has(f.key));
+  const remaining = excludeFieldSubtree(schema.fields, assigned);
   if (remaining.length > 0) {
     passes.push(remaining);
   }
@@ -328,6 +459,38 @@ export function resolveGenerationPasses(schema: SchemaPreset): SchemaField[][] {
   return passes;
 }
 
+function collectDependsOn(fields: SchemaField[]): string[] {
+  return fields.flatMap((field) => [...(field.dependsOn ?? []), ...(field.fields ? collectDependsOn(field.fields) : [])]);
+}
+
+/**
+ * For each pass, the indexes of earlier passes it must wait for. A pass that
+ * declares `dependsOn` waits only for the passes producing the fields it
+ * names, so it may run alongside the others; a pass that declares none keeps
+ * the strict order and waits for every earlier pass, since it may rely on
+ * everything generated before it.
+ */
+export function resolvePassDependencies(passes: SchemaField[][]): number[][] {
+  const passPaths = passes.map((passFields) => fieldLeafPaths(passFields));
+
+  return passes.map((passFields, index) => {
+    const dependsOn = collectDependsOn(passFields);
+    if (dependsOn.length === 0) {
+      return Array.from({ length: index }, (_, prior) => prior);
+    }
+
+    const deps = new Set<number>();
+    for (const path of dependsOn) {
+      // Later or same-pass references cannot be waited on; the prompt still mentions them.
+      for (let producer = 0; producer < index; producer++) {
+        const produces = passPaths[producer].some((leaf) => isPathWithin(leaf, [path]) || isPathWithin(path, [leaf]));
+        if (produces) deps.add(producer);
+      }
+    }
+    return Array.from(deps).sort((a, b) => a - b);
+  });
+}
+
 /**
  * Check if a schema should use multi-pass generation.
  */
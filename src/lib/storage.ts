@@ -4,6 +4,16 @@ const isTauri = () => '__TAURI_INTERNALS__' in window;
 
 let dataDirCache: string | null = null;
 
+/** File type offered by save dialogs */
+interface SaveFormat {
+  description: string;
+  mimeType: string;
+  extension: string;
+}
+
+const JSON_FORMAT: SaveFormat = { description: 'JSON Files', mimeType: 'application/json', extension: 'json' };
+const CSV_FORMAT: SaveFormat = { description: 'CSV Files', mimeType: 'text/csv', extension: 'csv' };
+
 async function getDataDir(): Promise<string> {
   if (dataDirCache) return dataDirCache;
   if (isTauri()) {
@@ -44,10 +54,12 @@ async function tauriExists(path: string): Promise<boolean> {
   return invoke<boolean>('file_exists', { path });
 }
 
-async function tauriSaveJsonWithDialog(defaultFileName: string, content: string): Promise<string | null> {
-  return invoke<string | null>('save_json_with_dialog', {
+async function tauriSaveTextWithDialog(defaultFileName: string, content: string, format: SaveFormat): Promise<string | null> {
+  return invoke<string | null>('save_text_with_dialog', {
     defaultFileName,
     content,
+    filterName: format.description,
+    extension: format.extension,
   });
 }
 
@@ -86,6 +98,47 @@ function localListDir(path: string): string[] {
   return keys;
 }
 
+// ---- Save dialogs ----
+
+async function saveTextWithDialog(defaultFileName: string, content: string, format: SaveFormat): Promise<string | null> {
+  if (isTauri()) {
+    return tauriSaveTextWithDialog(defaultFileName, content, format);
+  }
+
+  if ('showSaveFilePicker' in window) {
+    try {
+      const handle = await (window as unknown as {
+        showSaveFilePicker: (options?: unknown) => Promise<{
+          createWritable: () => Promise<{ write: (data: string) => Promise<void>; close: () => Promise<void> }>;
+        }>;
+      }).showSaveFilePicker({
+        suggestedName: defaultFileName,
+        types: [
+          {
+            description: format.description,
+            accept: { [format.mimeType]: [`.${format.extension}`] },
+          },
+        ],
+      });
+      const writable = await handle.createWritable();
+      await writable.write(content);
+      await writable.close();
+      return defaultFileName;
+    } catch {
+      return null;
+    }
+  }
+
+  const blob = new Blob([content], { type: format.mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = defaultFileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+  return defaultFileName;
+}
+
 // ---- Public storage API ----
 
 export const storage = {
@@ -146,43 +199,10 @@ export const storage = {
   },
 
   async saveJsonWithDialog(defaultFileName: string, data: unknown): Promise<string | null> {
-    const content = JSON.stringify(data, null, 2);
-
-    if (isTauri()) {
-      return tauriSaveJsonWithDialog(defaultFileName, content);
-    }
-
-    if ('showSaveFilePicker' in window) {
-      try {
-        const handle = await (window as unknown as {
-          showSaveFilePicker: (options?: unknown) => Promise<{
-            createWritable: () => Promise<{ write: (data: string) => Promise<void>; close: () => Promise<void> }>;
-          }>;
-        }).showSaveFilePicker({
-          suggestedName: defaultFileName,
-          types: [
-            {
-              description: 'JSON Files',
-              accept: { 'application/json': ['.json'] },
-            },
-          ],
-        });
-        const writable = await handle.createWritable();
-        await writable.write(content);
-        await writable.close();
-        return defaultFileName;
-      } catch {
-        return null;
-      }
-    }
+    return saveTextWithDialog(defaultFileName, JSON.stringify(data, null, 2), JSON_FORMAT);
+  },
 
-    const blob = new Blob([content], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const anchor = document.createElement('a');
-    anchor.href = url;
-    anchor.download = defaultFileName;
-    anchor.click();
-    URL.revokeObjectURL(url);
-    return defaultFileName;
+  async saveCsvWithDialog(defaultFileName: string, content: string): Promise<string | null> {
+    return saveTextWithDialog(defaultFileName, content, CSV_FORMAT);
   },
 };
@@ -0,0 +1,84 @@
+import type { GeneratedProfile, GenerationResult, ModelPrice, ModelUsage, TokenUsage } from '@/types';
+
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens };
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+  };
+}
+
+/** Collects usage across several calls; pass `onUsage` to each call. */
+export function createUsageMeter() {
+  let total: TokenUsage | undefined;
+  return {
+    onUsage: (usage: TokenUsage) => {
+      total = addUsage(total, usage);
+    },
+    get total() {
+      return total;
+    },
+  };
+}
+
+/** Estimated USD cost, or null when the model has no price entry. */
+export function estimateCost(usage: TokenUsage, model: string, prices: Record<string, ModelPrice>): number | null {
+  const price = prices[model];
+  if (!price) return null;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export interface UsageSummary {
+  usage: TokenUsage;
+  /** Sum over entries with a known price */
+  cost: number;
+  /** True when some usage could not be priced */
+  unpriced: boolean;
+}
+
+export function summarizeUsage(entries: ModelUsage[], prices: Record<string, ModelPrice>): UsageSummary {
+  const summary: UsageSummary = { usage: { inputTokens: 0, outputTokens: 0 }, cost: 0, unpriced: false };
+  for (const entry of entries) {
+    summary.usage = addUsage(summary.usage, entry) ?? summary.usage;
+    const cost = estimateCost(entry, entry.model, prices);
+    if (cost === null) summary.unpriced = true;
+    else summary.cost += cost;
+  }
+  return summary;
+}
+
+/** Usage across every revision of a profile. */
+export function summarizeProfileUsage(profile: GeneratedProfile, prices: Record<string, ModelPrice>): UsageSummary | null {
+  const entries = (profile.revisions ?? [])
+    .map((revision) => revision.usage)
+    .filter((usage): usage is ModelUsage => !!usage);
+  if (entries.length === 0) return null;
+  return summarizeUsage(entries, prices);
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(2)}M`;
+  if (count >= 10_000) return `${Math.round(count / 1000)}k`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+  return String(count);
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/** Attach the run's model to its usage so a revision can be priced later. */
+export function resultUsage(result: Pick<GenerationResult, 'provider' | 'model' | 'tokensUsed'>): ModelUsage | undefined {
+  if (!result.tokensUsed) return undefined;
+  return { provider: result.provider, model: result.model, ...result.tokensUsed };
+}
+
+/** e.g. "12.3k in / 4.1k out · ~$0.04"; cost is omitted when no entry is priced. */
+export function describeUsage(summary: UsageSummary): string {
+  const tokens = `${formatTokens(summary.usage.inputTokens)} in / ${formatTokens(summary.usage.outputTokens)} out`;
+  if (summary.unpriced && summary.cost === 0) return tokens;
+  return `${tokens} · ~${formatCost(summary.cost)}${summary.unpriced ? '+' : ''}`;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { issuePaths, jsonSchemaAtPath, validateAgainstJsonSchema } from './validation';
+
+const jsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    warmth: { type: 'string', enum: ['low', 'high'] },
+    traits: { type: 'string', 'x-listCount': 3 },
+    likes: { type: 'array', minItems: 2, maxItems: 2, items: { type: 'string' } },
+    stats: {
+      type: 'object',
+      properties: { age: { type: 'number' }, armed: { type: 'boolean' } },
+      required: ['age', 'armed'],
+    },
+  },
+  required: ['name', 'warmth', 'traits', 'likes', 'stats'],
+};
+
+const valid = {
+  name: 'Mara',
+  warmth: 'high',
+  traits: 'dry, patient, wry',
+  likes: ['tea', 'maps'],
+  stats: { age: 34, armed: false },
+};
+
+describe('validateAgainstJsonSchema', () => {
+  it('accepts a profile that matches', () => {
+    expect(validateAgainstJsonSchema(jsonSchema, valid)).toEqual([]);
+  });
+
+  it('reports missing fields, wrong types and values outside the enum', () => {
+    const issues = validateAgainstJsonSchema(jsonSchema, { ...valid, name: ' ', warmth: 'tepid', stats: { age: '34', armed: false } });
+    expect(issues).toEqual([
+      { path: 'name', message: 'name is missing or empty' },
+      { path: 'warmth', message: 'warmth must be one of: low, high (got "tepid")' },
+      { path: 'stats.age', message: 'stats.age must be a number' },
+    ]);
+  });
+
+  it('counts comma-separated items for x-listCount', () => {
+    expect(validateAgainstJsonSchema(jsonSchema, { ...valid, traits: 'dry, patient,' })).toEqual([
+      { path: 'traits', message: 'traits must list exactly 3 comma-separated items (got 2)' },
+    ]);
+  });
+
+  it('reports item counts and item problems on the array itself', () => {
+    expect(issuePaths(validateAgainstJsonSchema(jsonSchema, { ...valid, likes: ['tea', 4] }))).toEqual(['likes']);
+    expect(validateAgainstJsonSchema(jsonSchema, { ...valid, likes: ['tea'] })).toEqual([
+      { path: 'likes', message: 'likes must have exactly 2 items (got 1)' },
+    ]);
+  });
+});
+
+describe('jsonSchemaAtPath', () => {
+  it('follows object properties to a nested field', () => {
+    expect(jsonSchemaAtPath(jsonSchema, 'stats.armed')).toEqual({ type: 'boolean' });
+    expect(jsonSchemaAtPath(jsonSchema, 'likes.0')).toBeNull();
+  });
+});
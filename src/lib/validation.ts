@@ -0,0 +1,130 @@
+export interface ValidationIssue {
+  /** Dot path of the offending value; array items report their array's path */
+  path: string;
+  message: string;
+}
+
+type JsonSchemaNode = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asNode(value: unknown): JsonSchemaNode | null {
+  return isPlainObject(value) ? value : null;
+}
+
+function joinPath(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function validateNode(node: JsonSchemaNode, value: unknown, path: string, issues: ValidationIssue[]): void {
+  const label = path || 'profile';
+
+  switch (node.type) {
+    case 'object': {
+      if (!isPlainObject(value)) {
+        issues.push({ path, message: `${label} must be an object` });
+        return;
+      }
+      const properties = asNode(node.properties) ?? {};
+      const required = Array.isArray(node.required) ? node.required.map(String) : [];
+      for (const key of required) {
+        if (isEmpty(value[key])) {
+          issues.push({ path: joinPath(path, key), message: `${joinPath(path, key)} is missing or empty` });
+        }
+      }
+      for (const [key, child] of Object.entries(properties)) {
+        const childNode = asNode(child);
+        if (!childNode || isEmpty(value[key])) continue;
+        validateNode(childNode, value[key], joinPath(path, key), issues);
+      }
+      return;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `${label} must be an array` });
+        return;
+      }
+      const { minItems, maxItems } = node;
+      if (typeof minItems === 'number' && typeof maxItems === 'number' && minItems === maxItems && value.length !== minItems) {
+        issues.push({ path, message: `${label} must have exactly ${minItems} items (got ${value.length})` });
+      } else if (typeof minItems === 'number' && value.length < minItems) {
+        issues.push({ path, message: `${label} must have at least ${minItems} items (got ${value.length})` });
+      } else if (typeof maxItems === 'number' && value.length > maxItems) {
+        issues.push({ path, message: `${label} must have at most ${maxItems} items (got ${value.length})` });
+      }
+      const items = asNode(node.items);
+      if (!items) return;
+      // Item problems are reported on the array so a repair regenerates it whole.
+      const itemIssues: ValidationIssue[] = [];
+      value.forEach((item, index) => validateNode(items, item, `${label}[${index}]`, itemIssues));
+      for (const issue of itemIssues) issues.push({ path, message: issue.message });
+      return;
+    }
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `${label} must be a number` });
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `${label} must be true or false` });
+      }
+      return;
+    case 'string':
+    default: {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `${label} must be a string` });
+        return;
+      }
+      const allowed = Array.isArray(node.enum) ? node.enum.map(String) : [];
+      if (allowed.length > 0 && !allowed.includes(value)) {
+        issues.push({ path, message: `${label} must be one of: ${allowed.join(', ')} (got "${value}")` });
+      }
+      const listCount = node['x-listCount'];
+      if (typeof listCount === 'number') {
+        const count = splitList(value).length;
+        if (count !== listCount) {
+          issues.push({ path, message: `${label} must list exactly ${listCount} comma-separated items (got ${count})` });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Checks a parsed profile against a JSON schema produced by `buildJsonSchema`
+ * or `buildJsonSchemaForFields`: required keys, primitive types, enum and scale
+ * membership, ranked item counts, comma-separated list counts and nested
+ * object/array structure.
+ */
+export function validateAgainstJsonSchema(jsonSchema: Record<string, unknown>, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateNode(jsonSchema, value, '', issues);
+  return issues;
+}
+
+/** Unique issue paths, in first-seen order. */
+export function issuePaths(issues: ValidationIssue[]): string[] {
+  return Array.from(new Set(issues.map((issue) => issue.path).filter(Boolean)));
+}
+
+/** Resolves the sub-schema for a dot path, following object properties only. */
+export function jsonSchemaAtPath(jsonSchema: Record<string, unknown>, path: string): Record<string, unknown> | null {
+  let current: JsonSchemaNode | null = jsonSchema;
+  for (const part of path.split('.').filter(Boolean)) {
+    const properties: JsonSchemaNode | null = current ? asNode(current.properties) : null;
+    current = properties ? asNode(properties[part]) : null;
+    if (!current) return null;
+  }
+  return current;
+}
@@ -1,4 +1,21 @@
-import type { ConfidenceReport, SchemaField, SchemaPreset } from '@/types';
+import type {
+  ConfidenceReport,
+  ConsistencyIssue,
+  ConstraintViolation,
+  GeneratedProfile,
+  ModelUsage,
+  ProfileRevision,
+  ProfileRevisionKind,
+  RepairReport,
+  SchemaConstraint,
+  SchemaField,
+  SchemaPreset,
+} from '@/types';
+import { describeConstraint, findPronounMismatch, matchesCondition } from './constraints';
+import { isPathWithin } from './fieldPaths';
+import { generateId } from './utils';
+import { buildJsonSchema } from './promptBuilder';
+import { issuePaths, validateAgainstJsonSchema } from './validation';
 
 export interface FieldOption {
   path: string;
@@ -55,8 +72,18 @@ export function setPathValue(object: Record<string, unknown>, path: string, valu
   return root;
 }
 
-export function rootKeysFromPaths(paths: string[]): string[] {
-  return Array.from(new Set(paths.map((path) => path.split('.')[0]).filter(Boolean)));
+/** Copies each path's value from `source` into `target`, skipping paths `source` lacks. */
+export function mergePathValues(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  paths: string[]
+): Record<string, unknown> {
+  let result = target;
+  for (const path of paths) {
+    const value = getPathValue(source, path);
+    if (value !== undefined) result = setPathValue(result, path, value);
+  }
+  return result;
 }
 
 export function applyPathSelections(
@@ -65,14 +92,7 @@ export function applyPathSelections(
   selectedPaths: string[]
 ): Record<string, unknown> {
   if (selectedPaths.length === 0) return cloneJson(candidate);
-  let result = cloneJson(base);
-  for (const path of selectedPaths) {
-    const value = getPathValue(candidate, path);
-    if (value !== undefined) {
-      result = setPathValue(result, path, value);
-    }
-  }
-  return result;
+  return mergePathValues(cloneJson(base), candidate, selectedPaths);
 }
 
 export function enforceLockedPaths(
@@ -89,6 +109,43 @@ export function enforceLockedPaths(
   return result;
 }
 
+/** Seeds at or under `scopes`, plus the parts of seeded objects that enclose a scope. */
+function scopedSeedEntries(seeds: Record<string, unknown>, scopes: string[]): [string, unknown][] {
+  const entries: [string, unknown][] = [];
+  for (const [path, value] of Object.entries(seeds)) {
+    if (isPathWithin(path, scopes)) {
+      entries.push([path, value]);
+      continue;
+    }
+    if (!isPlainObject(value)) continue;
+    for (const scope of scopes) {
+      if (!scope.startsWith(`${path}.`)) continue;
+      const part = getPathValue(value, scope.slice(path.length + 1));
+      if (part !== undefined) entries.push([scope, part]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Overwrite seeded paths in the candidate. With `scopes`, only seeds at or
+ * under those paths apply, along with the parts of a seeded object that fall
+ * inside them, so an object seed split across passes holds in every pass.
+ */
+export function enforceSeededPaths(
+  candidate: Record<string, unknown>,
+  seeds: Record<string, unknown>,
+  scopes?: string[]
+): Record<string, unknown> {
+  const entries = scopes ? scopedSeedEntries(seeds, scopes) : Object.entries(seeds);
+  if (entries.length === 0) return candidate;
+  let result = cloneJson(candidate);
+  for (const [path, value] of entries) {
+    result = setPathValue(result, path, value);
+  }
+  return result;
+}
+
 export function diffPaths(before: unknown, after: unknown, prefix = ''): string[] {
   if (JSON.stringify(before) === JSON.stringify(after)) return [];
 
@@ -107,7 +164,53 @@ export function diffPaths(before: unknown, after: unknown, prefix = ''): string[
   return [prefix || '$'];
 }
 
-export function evaluateConfidence(schema: SchemaPreset, profile: Record<string, unknown>, passes = 1): ConfidenceReport {
+const MAX_VALIDATION_WARNINGS = 8;
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/** Checks schema constraints. Rules on fields that are still empty are skipped; missing fields are reported separately. */
+export function evaluateConstraints(constraints: SchemaConstraint[], profile: Record<string, unknown>): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  for (const constraint of constraints) {
+    if (constraint.kind === 'implies') {
+      const premise = getPathValue(profile, constraint.when.path);
+      const value = getPathValue(profile, constraint.then.path);
+      if (isEmptyValue(premise) || isEmptyValue(value)) continue;
+      if (!matchesCondition(premise, constraint.when) || matchesCondition(value, constraint.then)) continue;
+      violations.push({
+        constraintId: constraint.id,
+        paths: [constraint.then.path],
+        message: `${describeConstraint(constraint)}, but it is ${JSON.stringify(value)}`,
+      });
+      continue;
+    }
+
+    const pronouns = getPathValue(profile, constraint.pronounsPath);
+    const raw = getPathValue(profile, constraint.textPath);
+    const text = Array.isArray(raw) ? raw.filter((item) => typeof item === 'string').join('\n') : raw;
+    if (typeof pronouns !== 'string' || typeof text !== 'string') continue;
+    const mismatch = findPronounMismatch(pronouns, text);
+    if (mismatch) {
+      violations.push({
+        constraintId: constraint.id,
+        paths: [constraint.textPath],
+        message: `${constraint.textPath} ${mismatch}, but ${constraint.pronounsPath} is "${pronouns}"`,
+      });
+    }
+  }
+  return violations;
+}
+
+/** `consistencyIssues`, when a consistency review ran, are listed among the warnings and kept on the report. */
+export function evaluateConfidence(
+  schema: SchemaPreset,
+  profile: Record<string, unknown>,
+  passes = 1,
+  repair?: RepairReport,
+  consistencyIssues?: ConsistencyIssue[]
+): ConfidenceReport {
   const warnings: string[] = [];
   const missing = schema.fields
     .map((field) => field.key)
@@ -116,7 +219,28 @@ export function evaluateConfidence(schema: SchemaPreset, profile: Record<string,
     warnings.push(`Missing or empty top-level fields: ${missing.join(', ')}`);
   }
 
-  const schemaValid = missing.length === 0;
+  // Missing top-level keys are already summarised above.
+  const missingSet = new Set(missing);
+  const issues = validateAgainstJsonSchema(buildJsonSchema(schema), profile)
+    .filter((issue) => !missingSet.has(issue.path));
+  for (const issue of issues.slice(0, MAX_VALIDATION_WARNINGS)) {
+    warnings.push(issue.message);
+  }
+  if (issues.length > MAX_VALIDATION_WARNINGS) {
+    warnings.push(`${issues.length - MAX_VALIDATION_WARNINGS} more schema issue(s) not shown`);
+  }
+  if (repair?.error) {
+    warnings.push(`Automatic repair failed: ${repair.error}`);
+  }
+  const constraintViolations = schema.constraints?.length ? evaluateConstraints(schema.constraints, profile) : undefined;
+  for (const violation of constraintViolations ?? []) {
+    warnings.push(`Rule broken: ${violation.message}`);
+  }
+  for (const issue of consistencyIssues ?? []) {
+    warnings.push(`Inconsistent ${issue.paths.join(', ')}: ${issue.explanation}`);
+  }
+
+  const schemaValid = missing.length === 0 && issues.length === 0;
   const fieldsComplete = missing.length === 0;
 
   return {
@@ -124,5 +248,47 @@ export function evaluateConfidence(schema: SchemaPreset, profile: Record<string,
     fieldsComplete,
     passes,
     warnings,
+    invalidPaths: [...missing, ...issuePaths(issues)],
+    repair,
+    consistencyIssues,
+    constraintViolations,
+  };
+}
+
+/** Add a revision on top of the profile and make it active. */
+export function appendRevision(
+  profile: GeneratedProfile,
+  kind: ProfileRevisionKind,
+  prompt: string,
+  snapshot: Record<string, unknown>,
+  options?: {
+    selectedFields?: string[];
+    lockedFields?: string[];
+    confidence?: ConfidenceReport;
+    parentRevisionId?: string;
+    usage?: ModelUsage;
+  }
+): GeneratedProfile {
+  const currentRevisions = profile.revisions ? [...profile.revisions] : [];
+  const newRevisionId = generateId();
+  const revision: ProfileRevision = {
+    id: newRevisionId,
+    createdAt: new Date().toISOString(),
+    kind,
+    prompt,
+    snapshot,
+    selectedFields: options?.selectedFields,
+    lockedFields: options?.lockedFields,
+    confidence: options?.confidence,
+    parentRevisionId: options?.parentRevisionId,
+    usage: options?.usage,
+  };
+  currentRevisions.push(revision);
+  return {
+    ...profile,
+    generatedAt: revision.createdAt,
+    profile: snapshot,
+    revisions: currentRevisions,
+    activeRevisionId: newRevisionId,
   };
 }
@@ -1,24 +1,57 @@
-import { useConsoleStreamStore } from '@/stores/consoleStreamStore';
+import { useConsoleStreamStore, withConsoleRun } from '@/stores/consoleStreamStore';
+import { fetchWithRetry } from './retry';
+import { parseSSEJson, readSSEStream } from './sse';
+import { toStrictJsonSchema } from './structuredOutput';
+import type { LLMCallConfig } from './types';
 
 const API_URL = 'https://api.anthropic.com/v1/messages';
 
-export interface LLMCallConfig {
-  apiKey: string;
-  model: string;
-  temperature: number;
-  systemPrompt: string;
-  userPrompt: string;
-  onToken: (token: string) => void;
+interface AnthropicStreamFrame {
+  type?: string;
+  delta?: { type?: string; text?: string; partial_json?: string };
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  /** Cumulative output usage on `message_delta` */
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorBody = await response.text();
+  let message = `Anthropic API error (${response.status})`;
+  try {
+    const parsed = JSON.parse(errorBody);
+    message = parsed.error?.message ?? message;
+  } catch { /* use default */ }
+  return message;
 }
 
 /**
- * Makes a single streaming call to Anthropic and returns the full text content.
+ * With a response schema, Anthropic is forced to call a single tool whose
+ * input schema is the response schema; the streamed tool input is the JSON.
+ */
+function buildToolFields(config: LLMCallConfig): Record<string, unknown> {
+  if (!config.responseSchema) return {};
+  const { name, schema } = config.responseSchema;
+  return {
+    tools: [
+      {
+        name,
+        description: 'Return the response as the input of this tool.',
+        input_schema: toStrictJsonSchema(schema),
+      },
+    ],
+    tool_choice: { type: 'tool', name },
+  };
+}
+
+/**
+ * Makes a single streaming call to Anthropic and returns the full text content
+ * (or the tool input JSON when a response schema is set).
  */
 export async function callAnthropic(config: LLMCallConfig): Promise<string> {
-  const runId = useConsoleStreamStore.getState().startRun(`Anthropic ${config.model}`);
 
-  try {
-    const response = await fetch(API_URL, {
+  return withConsoleRun(`Anthropic ${config.model}`, config.signal, async () => {
+    const response = await fetchWithRetry(() => fetch(API_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -34,52 +67,53 @@ export async function callAnthropic(config: LLMCallConfig): Promise<string> {
         messages: [
           { role: 'user', content: config.userPrompt },
         ],
+        ...buildToolFields(config),
         stream: true,
       }),
+      signal: config.signal,
+    }), {
+      label: 'Anthropic',
+      signal: config.signal,
+      readError: readErrorMessage,
     });
 
     if (!response.ok) {
-      const errorBody = await response.text();
-      let message = `Anthropic API error (${response.status})`;
-      try {
-        const parsed = JSON.parse(errorBody);
-        message = parsed.error?.message ?? message;
-      } catch { /* use default */ }
-      throw new Error(message);
+      throw new Error(await readErrorMessage(response));
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error('No response body');
-
-    const decoder = new TextDecoder();
     let fullContent = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let hasUsage = false;
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n').filter((l) => l.trim().startsWith('data:'));
-
-      for (const line of lines) {
-        const data = line.replace('data: ', '').trim();
-        if (!data || data === '[DONE]') continue;
-        try {
-          const parsed = JSON.parse(data);
-          if (parsed.type === 'content_block_delta') {
-            const token = parsed.delta?.text ?? '';
-            if (token) {
-              fullContent += token;
-              useConsoleStreamStore.getState().appendToken(token);
-              config.onToken(token);
-            }
-          }
-        } catch { /* skip */ }
+    await readSSEStream(response, (event) => {
+      const frame = parseSSEJson<AnthropicStreamFrame>(event.data);
+      if (!frame) return;
+      if (event.event === 'error' || frame.type === 'error') {
+        throw new Error(`Anthropic stream error: ${frame.error?.message ?? 'unknown error'}`);
       }
-    }
+      if (frame.type === 'message_start' && frame.message?.usage) {
+        hasUsage = true;
+        inputTokens = frame.message.usage.input_tokens ?? 0;
+        outputTokens = frame.message.usage.output_tokens ?? 0;
+      }
+      if (frame.type === 'message_delta' && frame.usage?.output_tokens !== undefined) {
+        hasUsage = true;
+        outputTokens = frame.usage.output_tokens;
+      }
+      if (frame.type === 'content_block_delta') {
+        const token = frame.delta?.type === 'input_json_delta'
+          ? frame.delta.partial_json ?? ''
+          : frame.delta?.text ?? '';
+        if (token) {
+          fullContent += token;
+          useConsoleStreamStore.getState().appendToken(token);
+          config.onToken(token);
+        }
+      }
+    });
 
+    if (hasUsage) config.onUsage?.({ inputTokens, outputTokens });
     return fullContent;
-  } finally {
-    useConsoleStreamStore.getState().endRun(runId);
-  }
+  });
 }
@@ -0,0 +1,53 @@
+import type { BatchItem } from '@/types';
+
+export const MAX_BATCH_SIZE = 50;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+/**
+ * Expands one brief into per-item briefs. Variations (one per line) are
+ * appended in turn, cycling when there are fewer variations than items.
+ */
+export function buildBatchBriefs(brief: string, count: number, variations: string[]): string[] {
+  const base = brief.trim();
+  const lines = variations.map((line) => line.trim()).filter(Boolean);
+  return Array.from({ length: count }, (_, index) => {
+    const variation = lines.length > 0 ? lines[index % lines.length] : '';
+    return [base, variation].filter(Boolean).join('\n');
+  });
+}
+
+/** `rowSeeds`, when given, holds per-item seeds aligned with `briefs`. */
+export function createBatchItems(
+  briefs: string[],
+  totalPasses: number,
+  rowSeeds?: Record<string, unknown>[]
+): BatchItem[] {
+  return briefs.map((brief, index) => ({
+    index,
+    brief,
+    seeds: rowSeeds?.[index],
+    status: 'queued',
+    pass: 0,
+    totalPasses,
+  }));
+}
+
+/**
+ * Runs `worker` over every item with at most `concurrency` in flight.
+ * Workers handle their own errors; once `signal` aborts, no new items start.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+}
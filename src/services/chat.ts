@@ -1,26 +1,12 @@
-import { callOpenAI } from './openai';
-import { FIXED_MODEL, FIXED_TEMPERATURE } from './types';
-import type { GeneratedProfile, SchemaPreset } from '@/types';
+import { callLLM } from './registry';
+import type { GeneratedProfile, LLMTarget, SchemaPreset } from '@/types';
+import { extractJsonObject } from '@/lib/json';
 
 export interface ChatTurn {
   role: 'user' | 'assistant';
   content: string;
 }
 
-function extractJsonObject(raw: string): string {
-  const trimmed = raw.trim();
-  if (trimmed.startsWith('{') && trimmed.endsWith('}')) return trimmed;
-
-  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
-  if (fenced?.[1]) return fenced[1].trim();
-
-  const start = trimmed.indexOf('{');
-  const end = trimmed.lastIndexOf('}');
-  if (start >= 0 && end > start) return trimmed.slice(start, end + 1);
-
-  throw new Error('Model did not return valid JSON.');
-}
-
 function readString(value: unknown): string {
   return typeof value === 'string' ? value.trim() : '';
 }
@@ -113,16 +99,14 @@ function transcriptFrom(history: ChatTurn[], nextUserMessage: string): string {
 }
 
 export async function generateSceneFromSchema(config: {
-  apiKey: string;
+  target: LLMTarget;
   profile: GeneratedProfile;
   schema: SchemaPreset | null;
   onToken: (token: string) => void;
+  signal?: AbortSignal;
 }): Promise<string> {
-  const { apiKey, profile, schema, onToken } = config;
-  const raw = await callOpenAI({
-    apiKey,
-    model: FIXED_MODEL,
-    temperature: FIXED_TEMPERATURE,
+  const { target, profile, schema, onToken, signal } = config;
+  const raw = await callLLM(target, {
     systemPrompt: `You create short conversation context blurbs for character chat.
 
 Return JSON only:
@@ -147,6 +131,8 @@ ${summarizeSchema(schema)}
 
 Return only JSON.`,
     onToken,
+    signal,
+    log: { label: 'Chat scene', profileId: profile.id, schemaId: schema?.id },
   });
 
   const parsed = JSON.parse(extractJsonObject(raw)) as { scene?: unknown };
@@ -156,19 +142,17 @@ Return only JSON.`,
 }
 
 export async function generateCharacterReply(config: {
-  apiKey: string;
+  target: LLMTarget;
   profile: GeneratedProfile;
   schema: SchemaPreset | null;
   scene: string;
   history: ChatTurn[];
   userMessage: string;
   onToken: (token: string) => void;
+  signal?: AbortSignal;
 }): Promise<string> {
-  const { apiKey, profile, schema, scene, history, userMessage, onToken } = config;
-  const raw = await callOpenAI({
-    apiKey,
-    model: FIXED_MODEL,
-    temperature: FIXED_TEMPERATURE,
+  const { target, profile, schema, scene, history, userMessage, onToken, signal } = config;
+  const raw = await callLLM(target, {
     systemPrompt: `You are writing a direct 1:1 in-character chat reply.
 
 You MUST speak as the character, not as an assistant.
@@ -201,6 +185,8 @@ ${transcriptFrom(history, userMessage.trim())}
 
 Write the next in-character reply and return only JSON.`,
     onToken,
+    signal,
+    log: { label: 'Chat reply', profileId: profile.id, schemaId: schema?.id },
   });
 
   const parsed = JSON.parse(extractJsonObject(raw)) as { reply?: unknown };
@@ -1,26 +1,38 @@
-import { useConsoleStreamStore } from '@/stores/consoleStreamStore';
+import { useConsoleStreamStore, withConsoleRun } from '@/stores/consoleStreamStore';
+import { fetchWithRetry } from './retry';
+import { parseSSEJson, readSSEStream } from './sse';
+import { toStrictJsonSchema } from './structuredOutput';
+import type { TokenUsage } from '@/types';
+import type { LLMCallConfig } from './types';
 
-export interface LLMCallConfig {
-  apiKey: string;
-  model: string;
-  temperature: number;
-  systemPrompt: string;
-  userPrompt: string;
-  onToken: (token: string) => void;
+interface GeminiStreamFrame {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  /** Running totals; the last frame carries the final counts */
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+  error?: { code?: number; message?: string };
 }
 
 function getApiUrl(model: string, apiKey: string): string {
   return `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`;
 }
 
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorBody = await response.text();
+  let message = `Gemini API error (${response.status})`;
+  try {
+    const parsed = JSON.parse(errorBody);
+    message = parsed.error?.message ?? message;
+  } catch { /* use default */ }
+  return message;
+}
+
 /**
  * Makes a single streaming call to Gemini and returns the full text content.
  */
 export async function callGemini(config: LLMCallConfig): Promise<string> {
-  const runId = useConsoleStreamStore.getState().startRun(`Gemini ${config.model}`);
 
-  try {
-    const response = await fetch(getApiUrl(config.model, config.apiKey), {
+  return withConsoleRun(`Gemini ${config.model}`, config.signal, async () => {
+    const response = await fetchWithRetry(() => fetch(getApiUrl(config.model, config.apiKey), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -38,50 +50,45 @@ export async function callGemini(config: LLMCallConfig): Promise<string> {
         generationConfig: {
           temperature: config.temperature,
           responseMimeType: 'application/json',
+          ...(config.responseSchema ? { responseJsonSchema: toStrictJsonSchema(config.responseSchema.schema) } : {}),
         },
       }),
+      signal: config.signal,
+    }), {
+      label: 'Gemini',
+      signal: config.signal,
+      readError: readErrorMessage,
     });
 
     if (!response.ok) {
-      const errorBody = await response.text();
-      let message = `Gemini API error (${response.status})`;
-      try {
-        const parsed = JSON.parse(errorBody);
-        message = parsed.error?.message ?? message;
-      } catch { /* use default */ }
-      throw new Error(message);
+      throw new Error(await readErrorMessage(response));
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error('No response body');
-
-    const decoder = new TextDecoder();
     let fullContent = '';
+    let usage: TokenUsage | null = null;
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n').filter((l) => l.trim().startsWith('data:'));
-
-      for (const line of lines) {
-        const data = line.replace('data: ', '').trim();
-        if (!data) continue;
-        try {
-          const parsed = JSON.parse(data);
-          const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
-          if (text) {
-            fullContent += text;
-            useConsoleStreamStore.getState().appendToken(text);
-            config.onToken(text);
-          }
-        } catch { /* skip */ }
+    await readSSEStream(response, (event) => {
+      const frame = parseSSEJson<GeminiStreamFrame>(event.data);
+      if (!frame) return;
+      if (frame.error) {
+        throw new Error(`Gemini stream error: ${frame.error.message ?? 'unknown error'}`);
       }
-    }
+      if (frame.usageMetadata) {
+        // Thinking tokens are billed as output.
+        usage = {
+          inputTokens: frame.usageMetadata.promptTokenCount ?? 0,
+          outputTokens: (frame.usageMetadata.candidatesTokenCount ?? 0) + (frame.usageMetadata.thoughtsTokenCount ?? 0),
+        };
+      }
+      const text = frame.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+      if (text) {
+        fullContent += text;
+        useConsoleStreamStore.getState().appendToken(text);
+        config.onToken(text);
+      }
+    });
 
+    if (usage) config.onUsage?.(usage);
     return fullContent;
-  } finally {
-    useConsoleStreamStore.getState().endRun(runId);
-  }
+  });
 }
@@ -0,0 +1,54 @@
+import { useConsoleStreamStore, withConsoleRun } from '@/stores/consoleStreamStore';
+import {
+  buildChatCompletionBody,
+  postChatCompletion,
+  readChatCompletionError,
+  readChatCompletionStream,
+} from './openai';
+import { fetchWithRetry, type RetryOptions } from './retry';
+import type { LLMCallConfig } from './types';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/** Statuses local servers return when they reject `response_format`. */
+const JSON_MODE_REJECTED_STATUSES = new Set([400, 422, 501]);
+
+function getApiUrl(baseUrl: string | undefined): string {
+  const base = (baseUrl?.trim() || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '');
+  return `${base}/chat/completions`;
+}
+
+/**
+ * Makes a single streaming call to an OpenAI-compatible local server
+ * (Ollama, llama.cpp, LM Studio) and returns the full text content.
+ *
+ * JSON mode is requested first; servers that reject `response_format` are
+ * retried without it and callers recover the object from free-form output.
+ */
+export async function callLocal(config: LLMCallConfig): Promise<string> {
+  const url = getApiUrl(config.baseUrl);
+  const retry: RetryOptions = {
+    label: 'Local endpoint',
+    signal: config.signal,
+    readError: (failed) => readChatCompletionError(failed, 'Local endpoint'),
+  };
+  const send = (jsonMode: boolean) => fetchWithRetry(
+    () => postChatCompletion(url, config.apiKey, buildChatCompletionBody(config, jsonMode), config.signal),
+    retry
+  );
+
+  return withConsoleRun(`Local ${config.model}`, config.signal, async () => {
+    let response = await send(true);
+
+    if (!response.ok && JSON_MODE_REJECTED_STATUSES.has(response.status)) {
+      useConsoleStreamStore.getState().appendToken('[json mode unsupported, retrying without response_format]\n');
+      response = await send(false);
+    }
+
+    if (!response.ok) {
+      throw new Error(await readChatCompletionError(response, 'Local endpoint'));
+    }
+
+    return await readChatCompletionStream(response, config.onToken, 'Local endpoint', config.onUsage);
+  });
+}
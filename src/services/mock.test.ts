@@ -0,0 +1,53 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateProfile } from './provider';
+import { DEFAULT_MOCK_SETTINGS } from './types';
+import { getDefaultPresets } from '@/lib/defaultPresets';
+import type { GenerationResult, LLMTarget, SchemaPreset } from '@/types';
+
+beforeAll(() => {
+  const store: Record<string, string> = {};
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => { store[key] = value; },
+    removeItem: (key: string) => { delete store[key]; },
+  });
+});
+
+function mockTarget(model: string): LLMTarget {
+  return {
+    provider: 'mock',
+    apiKey: '',
+    model,
+    temperature: 0.7,
+    mock: { ...DEFAULT_MOCK_SETTINGS, latencyMs: 0, tokenDelayMs: 0, errorRate: 0, malformedRate: 0 },
+  };
+}
+
+function generate(target: LLMTarget, schema: SchemaPreset, seeds: Record<string, unknown>): Promise<GenerationResult> {
+  return new Promise((resolve, reject) => {
+    void generateProfile(target, schema, 'A test character.', { seeds }, {
+      onPassStart: () => {},
+      onToken: () => {},
+      onPassComplete: () => {},
+      onComplete: resolve,
+      onError: (error) => reject(new Error(error)),
+    });
+  });
+}
+
+describe('mock provider generation', () => {
+  for (const schema of getDefaultPresets()) {
+    it(`fills every field of ${schema.name}`, async () => {
+      const seedKey = schema.fields[0].key;
+      const result = await generate(mockTarget('mock-structured'), schema, { [seedKey]: 'Seeded Value' });
+
+      expect(result.profile[seedKey]).toBe('Seeded Value');
+      for (const field of schema.fields) {
+        expect(result.profile[field.key], field.key).not.toBeUndefined();
+        expect(result.profile[field.key], field.key).not.toBe('');
+      }
+      expect(result.repair?.attempted ?? []).toEqual([]);
+    });
+  }
+});
@@ -0,0 +1,113 @@
+import { withConsoleRun } from '@/stores/consoleStreamStore';
+import { createSeededRandom, synthesizeFromJsonSchema, synthesizeFromPromptShape, type SeededRandom } from '@/lib/mockJson';
+import { readChatCompletionError, readChatCompletionStream } from './openai';
+import { fetchWithRetry } from './retry';
+import { DEFAULT_MOCK_SETTINGS, type LLMCallConfig } from './types';
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Rough token count for usage accounting; providers average about four characters per token. */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function buildOutput(config: LLMCallConfig, rng: SeededRandom): string {
+  const value = config.responseSchema
+    ? synthesizeFromJsonSchema(config.responseSchema.schema, rng)
+    : synthesizeFromPromptShape(`${config.systemPrompt}\n${config.userPrompt}`, rng);
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Streams `content` as Chat Completions SSE frames, one word-sized token per
+ * frame, followed by a usage frame. The body honours the abort signal between
+ * frames so Stop behaves like a network cancel.
+ */
+function streamResponse(content: string, inputTokens: number, tokenDelayMs: number, signal?: AbortSignal): Response {
+  const tokens = content.match(/\s*\S+/g) ?? [];
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (tokenDelayMs > 0) await wait(tokenDelayMs, signal);
+        else if (signal?.aborted) throw abortError();
+      } catch (error) {
+        controller.error(error);
+        return;
+      }
+
+      if (index < tokens.length) {
+        const frame = { choices: [{ delta: { content: tokens[index++] } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(frame)}\n\n`));
+        return;
+      }
+
+      const usage = { prompt_tokens: inputTokens, completion_tokens: estimateTokens(content) };
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [], usage })}\n\ndata: [DONE]\n\n`));
+      controller.close();
+    },
+  });
+
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/**
+ * Offline provider for development and tests. Output is synthesized from the
+ * response schema (or the JSON shape the prompt asks for) with an RNG seeded
+ * by the configured seed, model and prompts, so the same call always returns
+ * the same JSON. Injected failures are retryable 503s and go through the same
+ * retry path as real providers; malformed output is cut short mid-object.
+ */
+export async function callMock(config: LLMCallConfig): Promise<string> {
+  const settings = config.mock ?? DEFAULT_MOCK_SETTINGS;
+  const rng = createSeededRandom(settings.seed, config.model, config.systemPrompt, config.userPrompt);
+
+  return withConsoleRun(`Mock ${config.model}`, config.signal, async () => {
+    const response = await fetchWithRetry(async () => {
+      await wait(settings.latencyMs, config.signal);
+      if (rng() < settings.errorRate) {
+        const error = { error: { message: 'Injected mock failure' } };
+        return new Response(JSON.stringify(error), { status: 503 });
+      }
+
+      let content = buildOutput(config, rng);
+      if (rng() < settings.malformedRate) {
+        content = content.slice(0, Math.max(1, Math.floor(content.length * (0.3 + rng() * 0.5))));
+      }
+      const inputTokens = estimateTokens(`${config.systemPrompt}\n${config.userPrompt}`);
+      return streamResponse(content, inputTokens, settings.tokenDelayMs, config.signal);
+    }, {
+      label: 'Mock',
+      signal: config.signal,
+      readError: (failed) => readChatCompletionError(failed, 'Mock'),
+    });
+
+    if (!response.ok) {
+      throw new Error(await readChatCompletionError(response, 'Mock'));
+    }
+
+    return await readChatCompletionStream(response, config.onToken, 'Mock', config.onUsage);
+  });
+}
@@ -1,80 +1,129 @@
-import { useConsoleStreamStore } from '@/stores/consoleStreamStore';
+import { useConsoleStreamStore, withConsoleRun } from '@/stores/consoleStreamStore';
+import { fetchWithRetry } from './retry';
+import { parseSSEJson, readSSEStream } from './sse';
+import { toStrictJsonSchema } from './structuredOutput';
+import type { TokenUsage } from '@/types';
+import type { LLMCallConfig } from './types';
 const API_URL = 'https://api.openai.com/v1/chat/completions';
 
-export interface LLMCallConfig {
-  apiKey: string;
-  model: string;
-  temperature: number;
-  systemPrompt: string;
-  userPrompt: string;
-  onToken: (token: string) => void;
+function buildResponseFormat(config: LLMCallConfig): Record<string, unknown> {
+  if (!config.responseSchema) return { type: 'json_object' };
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: config.responseSchema.name,
+      schema: toStrictJsonSchema(config.responseSchema.schema),
+      strict: true,
+    },
+  };
 }
 
 /**
- * Makes a single streaming call to OpenAI and returns the full text content.
+ * Builds a streaming Chat Completions request body. Shared with any
+ * OpenAI-compatible endpoint. JSON mode becomes a strict `json_schema`
+ * response format when the config carries a response schema.
  */
-export async function callOpenAI(config: LLMCallConfig): Promise<string> {
-  const runId = useConsoleStreamStore.getState().startRun(`OpenAI ${config.model}`);
+export function buildChatCompletionBody(config: LLMCallConfig, jsonMode: boolean): Record<string, unknown> {
+  return {
+    model: config.model,
+    messages: [
+      { role: 'system', content: config.systemPrompt },
+      { role: 'user', content: config.userPrompt },
+    ],
+    temperature: config.temperature,
+    ...(jsonMode ? { response_format: buildResponseFormat(config) } : {}),
+    stream: true,
+    stream_options: { include_usage: true },
+  };
+}
 
+export function postChatCompletion(
+  url: string,
+  apiKey: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+export async function readChatCompletionError(response: Response, label: string): Promise<string> {
+  const errorBody = await response.text();
+  let message = `${label} API error (${response.status})`;
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.model,
-        messages: [
-          { role: 'system', content: config.systemPrompt },
-          { role: 'user', content: config.userPrompt },
-        ],
-        temperature: config.temperature,
-        response_format: { type: 'json_object' },
-        stream: true,
-      }),
-    });
+    const parsed = JSON.parse(errorBody);
+    message = parsed.error?.message ?? message;
+  } catch { /* use default */ }
+  return message;
+}
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      let message = `OpenAI API error (${response.status})`;
-      try {
-        const parsed = JSON.parse(errorBody);
-        message = parsed.error?.message ?? message;
-      } catch { /* use default */ }
-      throw new Error(message);
-    }
+interface ChatCompletionFrame {
+  choices?: { delta?: { content?: string | null } }[];
+  /** Sent on the final frame when `stream_options.include_usage` is set */
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  error?: { message?: string };
+}
 
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error('No response body');
+/**
+ * Reads a Chat Completions SSE stream, forwarding each content delta to the
+ * console stream and `onToken`, and returns the full text content.
+ */
+export async function readChatCompletionStream(
+  response: Response,
+  onToken: (token: string) => void,
+  label = 'OpenAI',
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  let fullContent = '';
+  let usage: TokenUsage | null = null;
 
-    const decoder = new TextDecoder();
-    let fullContent = '';
+  await readSSEStream(response, (event) => {
+    const frame = parseSSEJson<ChatCompletionFrame>(event.data);
+    if (!frame) return;
+    if (frame.error) {
+      throw new Error(`${label} stream error: ${frame.error.message ?? 'unknown error'}`);
+    }
+    if (frame.usage) {
+      usage = {
+        inputTokens: frame.usage.prompt_tokens ?? 0,
+        outputTokens: frame.usage.completion_tokens ?? 0,
+      };
+    }
+    const token = frame.choices?.[0]?.delta?.content ?? '';
+    if (token) {
+      fullContent += token;
+      useConsoleStreamStore.getState().appendToken(token);
+      onToken(token);
+    }
+  });
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  if (usage) onUsage?.(usage);
+  return fullContent;
+}
 
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n').filter((l) => l.trim().startsWith('data:'));
+/**
+ * Makes a single streaming call to OpenAI and returns the full text content.
+ */
+export async function callOpenAI(config: LLMCallConfig): Promise<string> {
 
-      for (const line of lines) {
-        const data = line.replace('data: ', '').trim();
-        if (data === '[DONE]') continue;
-        try {
-          const parsed = JSON.parse(data);
-          const token = parsed.choices?.[0]?.delta?.content ?? '';
-          if (token) {
-            fullContent += token;
-            useConsoleStreamStore.getState().appendToken(token);
-            config.onToken(token);
-          }
-        } catch { /* skip */ }
-      }
+  return withConsoleRun(`OpenAI ${config.model}`, config.signal, async () => {
+    const body = buildChatCompletionBody(config, true);
+    const response = await fetchWithRetry(() => postChatCompletion(API_URL, config.apiKey, body, config.signal), {
+      label: 'OpenAI',
+      signal: config.signal,
+      readError: (failed) => readChatCompletionError(failed, 'OpenAI'),
+    });
+
+    if (!response.ok) {
+      throw new Error(await readChatCompletionError(response, 'OpenAI'));
     }
 
-    return fullContent;
-  } finally {
-    useConsoleStreamStore.getState().endRun(runId);
-  }
+    return await readChatCompletionStream(response, config.onToken, 'OpenAI', config.onUsage);
+  });
 }
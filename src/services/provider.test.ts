@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateProfile, refineProfile } from './provider';
+import { callLLM } from './registry';
+import type { GenerationResult, LLMTarget, SchemaPreset } from '@/types';
+
+vi.mock('./registry', () => ({ callLLM: vi.fn() }));
+
+const target: LLMTarget = { provider: 'openai', apiKey: 'key', model: 'gpt-test', temperature: 0.7 };
+
+const schema: SchemaPreset = {
+  id: 'schema',
+  name: 'Test',
+  version: 1,
+  createdAt: '',
+  updatedAt: '',
+  fields: [
+    { key: 'name', label: 'Name', type: 'text', description: '', seedable: true },
+    { key: 'warmth', label: 'Warmth', type: 'scale', description: '', seedable: false, levels: ['low', 'high'] },
+    { key: 'traits', label: 'Traits', type: 'trait-list', description: '', seedable: false, traitCount: 3 },
+  ],
+};
+
+/** Answers successive LLM calls with these objects, as JSON. */
+function respondWith(...responses: Record<string, unknown>[]) {
+  const mocked = vi.mocked(callLLM);
+  for (const response of responses) mocked.mockResolvedValueOnce(JSON.stringify(response));
+}
+
+function generate(seeds: Record<string, unknown> = {}, preset = schema): Promise<GenerationResult> {
+  return new Promise((resolve, reject) => {
+    void generateProfile(target, preset, 'A test character.', { seeds }, {
+      onPassStart: () => {},
+      onToken: () => {},
+      onPassComplete: () => {},
+      onComplete: resolve,
+      onError: (error) => reject(new Error(error)),
+    });
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(callLLM).mockReset();
+});
+
+describe('generation repair', () => {
+  it('repairs only the fields that break the schema', async () => {
+    respondWith(
+      { name: 'Mara', warmth: 'tepid', traits: 'dry, patient' },
+      { repairs: { warmth: 'high', traits: 'dry, patient, wry' } }
+    );
+    const result = await generate();
+
+    expect(result.profile).toEqual({ name: 'Mara', warmth: 'high', traits: 'dry, patient, wry' });
+    expect(result.repair).toEqual({ attempted: ['warmth', 'traits'], repaired: ['warmth', 'traits'] });
+    const repairCall = vi.mocked(callLLM).mock.calls[1][1];
+    expect(Object.keys((repairCall.responseSchema?.schema.properties as { repairs: { properties: object } }).repairs.properties))
+      .toEqual(['warmth', 'traits']);
+  });
+
+  it('keeps the output and records a repair that still fails', async () => {
+    respondWith({ name: 'Mara', warmth: 'tepid', traits: 'dry, patient, wry' }, { repairs: { warmth: 'lukewarm' } });
+    const result = await generate();
+
+    expect(result.profile.warmth).toBe('lukewarm');
+    expect(result.repair).toEqual({ attempted: ['warmth'], repaired: [] });
+  });
+
+  it('makes no repair call for valid output', async () => {
+    respondWith({ name: 'Mara', warmth: 'low', traits: 'dry, patient, wry' });
+    const result = await generate();
+
+    expect(result.repair).toBeUndefined();
+    expect(callLLM).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('multi-pass seeds', () => {
+  it('keeps a seeded object whose fields are split across passes', async () => {
+    const levels = ['low', 'high'];
+    const splitSchema: SchemaPreset = {
+      ...schema,
+      fields: [
+        { key: 'name', label: 'Name', type: 'text', description: '', seedable: true },
+        {
+          key: 'stats',
+          label: 'Stats',
+          type: 'object',
+          description: '',
+          seedable: true,
+          fields: [
+            { key: 'wit', label: 'Wit', type: 'scale', description: '', seedable: true, levels },
+            { key: 'grit', label: 'Grit', type: 'scale', description: '', seedable: true, levels },
+          ],
+        },
+      ],
+      generationOrder: [['name', 'stats.wit'], ['stats.grit']],
+    };
+    respondWith({ name: 'Mara', stats: { wit: 'low' } }, { stats: { grit: 'high' } });
+    const result = await generate({ stats: { wit: 'high', grit: 'low' } }, splitSchema);
+
+    expect(result.profile).toEqual({ name: 'Mara', stats: { wit: 'high', grit: 'low' } });
+  });
+});
+
+describe('refineProfile', () => {
+  it('repairs refined fields that break the schema before merging them', async () => {
+    respondWith({ traits: 'dry' }, { repairs: { traits: 'dry, patient, wry' } });
+    const current = { name: 'Mara', warmth: 'low', traits: 'calm, kind, sly' };
+    const result = await refineProfile(target, schema, current, undefined, 'Make the traits drier', ['traits'], [], undefined, () => {});
+
+    expect(result.profile).toEqual({ name: 'Mara', warmth: 'low', traits: 'dry, patient, wry' });
+    expect(result.repair).toEqual({ attempted: ['traits'], repaired: ['traits'] });
+  });
+});
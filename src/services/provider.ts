@@ -1,5 +1,5 @@
-import type { SchemaPreset, MultiPassCallbacks } from '@/types';
-import { callOpenAI } from './openai';
+import type { SchemaPreset, SchemaField, MultiPassCallbacks, LLMTarget } from '@/types';
+import { callLLM } from './registry';
 import {
   buildSystemPrompt,
   buildUserPrompt,
@@ -7,32 +7,19 @@ import {
   buildPassSystemPrompt,
   buildPassUserPrompt,
   buildJsonSchemaForFields,
+  buildConsistencySystemPrompt,
+  buildConsistencyUserPrompt,
   resolveGenerationPasses,
+  resolvePassDependencies,
   isMultiPass,
 } from '@/lib/promptBuilder';
-import { FIXED_MODEL, FIXED_PROVIDER, FIXED_TEMPERATURE } from './types';
-import type { GenerationResult, SchemaField } from '@/types';
-import { enforceLockedPaths } from '@/lib/workspace';
-
-type LLMCallFn = (config: {
-  apiKey: string;
-  model: string;
-  temperature: number;
-  systemPrompt: string;
-  userPrompt: string;
-  onToken: (token: string) => void;
-}) => Promise<string>;
-
-function rootFieldKeys(fieldPaths: string[]): string[] {
-  return Array.from(new Set(fieldPaths.map((path) => path.split('.')[0]).filter(Boolean)));
-}
-
-function resolveTargetFields(schema: SchemaPreset, fieldPaths: string[]): SchemaField[] {
-  const keys = rootFieldKeys(fieldPaths);
-  if (keys.length === 0) return schema.fields;
-  const matched = schema.fields.filter((field) => keys.includes(field.key));
-  return matched.length > 0 ? matched : schema.fields;
-}
+import type { ConsistencyIssue, ConsistencyReview, FieldAlternatives, GenerationConstraints, GenerationResult, PartialGeneration, RepairReport, TokenUsage } from '@/types';
+import { enforceLockedPaths, enforceSeededPaths, flattenFieldOptions, getPathValue, mergePathValues, setPathValue } from '@/lib/workspace';
+import { fieldAtPath, fieldLeafPaths, selectFieldSubtree } from '@/lib/fieldPaths';
+import { issuePaths, jsonSchemaAtPath, validateAgainstJsonSchema, type ValidationIssue } from '@/lib/validation';
+import { parseJsonObject } from '@/lib/json';
+import { createUsageMeter } from '@/lib/usage';
+import { isAbortError } from '@/lib/utils';
 
 function buildRefineSystemPrompt(schema: SchemaPreset, partial: boolean): string {
   return `You are refining an existing character profile while preserving internal consistency and schema correctness.
@@ -54,12 +41,12 @@ function buildRefineUserPrompt(config: {
   originalBrief?: string;
   instruction: string;
   targetJsonSchema: Record<string, unknown>;
-  selectedRootKeys: string[];
+  targetPaths: string[];
   lockedFieldPaths: string[];
   constraintProfile?: Record<string, unknown>;
   partial: boolean;
 }): string {
-  const { schema, currentProfile, originalBrief, instruction, targetJsonSchema, selectedRootKeys, lockedFieldPaths, constraintProfile, partial } = config;
+  const { schema, currentProfile, originalBrief, instruction, targetJsonSchema, targetPaths, lockedFieldPaths, constraintProfile, partial } = config;
   return `Current profile:
 \`\`\`json
 ${JSON.stringify(currentProfile, null, 2)}
@@ -70,7 +57,7 @@ Refinement instruction:
 ${instruction}
 
 ${partial
-    ? `Regenerate ONLY these top-level fields: ${selectedRootKeys.join(', ')}`
+    ? `Regenerate ONLY these fields: ${targetPaths.join(', ')}\nNested paths use dots; return them nested inside their parent objects as the target schema shows. Sibling fields you were not asked for stay as they are, so leave them out.`
     : 'Regenerate the full profile.'}
 ${lockedFieldPaths.length > 0 ? `\nLocked fields (must remain unchanged): ${lockedFieldPaths.join(', ')}` : ''}
 ${constraintProfile ? `\nConstraint fields (hard constraints):\n\`\`\`json\n${JSON.stringify(constraintProfile, null, 2)}\n\`\`\`\nPreserve these constraint values unless the user instruction explicitly asks to change them.` : ''}
@@ -88,31 +75,167 @@ If schema descriptions include broad length ranges, treat them as maximums and p
 Respond with ONLY the requested JSON object.`;
 }
 
+function buildRepairUserPrompt(
+  profile: Record<string, unknown>,
+  issues: ValidationIssue[],
+  pathSchemas: Record<string, unknown>
+): string {
+  return `This generated character profile failed schema validation:
+\`\`\`json
+${JSON.stringify(profile, null, 2)}
+\`\`\`
+
+Problems:
+${issues.map((issue) => `- ${issue.message}`).join('\n')}
+
+Regenerate ONLY these paths so they satisfy their schema, staying consistent with the rest of the profile:
+\`\`\`json
+${JSON.stringify(pathSchemas, null, 2)}
+\`\`\`
+
+Return JSON only, keyed by the exact dot paths above:
+{
+  "repairs": { "<path>": <value> }
+}`;
+}
+
+function mergeRepairReports(reports: (RepairReport | undefined)[]): RepairReport | undefined {
+  const ran = reports.filter((report): report is RepairReport => !!report);
+  if (ran.length === 0) return undefined;
+  const errors = ran.map((report) => report.error).filter(Boolean);
+  return {
+    attempted: ran.flatMap((report) => report.attempted),
+    repaired: ran.flatMap((report) => report.repaired),
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+}
+
+/**
+ * Validate parsed output against the JSON schema it was generated from and,
+ * if anything fails, run one targeted repair call for just the invalid paths.
+ * A failed repair keeps the original output and is recorded, not thrown.
+ */
+async function validateAndRepair(
+  target: LLMTarget,
+  schema: SchemaPreset,
+  jsonSchema: Record<string, unknown>,
+  profile: Record<string, unknown>,
+  onToken: (token: string) => void,
+  onUsage: (usage: TokenUsage) => void,
+  signal?: AbortSignal,
+  profileId?: string
+): Promise<{ profile: Record<string, unknown>; repair?: RepairReport }> {
+  const issues = validateAgainstJsonSchema(jsonSchema, profile);
+  const paths = issuePaths(issues);
+  if (paths.length === 0) return { profile };
+  const pathSchemas = Object.fromEntries(paths.map((path) => [path, jsonSchemaAtPath(jsonSchema, path) ?? {}]));
+
+  try {
+    const raw = await callLLM(target, {
+      systemPrompt: `You repair invalid fields in generated character profiles for the "${schema.name}" schema.
+
+You MUST respond with valid JSON only.
+- Change nothing except the listed paths.
+- Enum and scale values must match an allowed value exactly.
+- Respect exact item counts.`,
+      userPrompt: buildRepairUserPrompt(profile, issues, pathSchemas),
+      responseSchema: {
+        name: 'profile_repair',
+        schema: {
+          type: 'object',
+          properties: { repairs: { type: 'object', properties: pathSchemas, required: paths } },
+          required: ['repairs'],
+        },
+      },
+      onToken,
+      onUsage,
+      signal,
+      log: { label: 'Repair invalid fields', profileId, schemaId: schema.id },
+    });
+
+    const parsed = parseJsonObject<{ repairs?: Record<string, unknown> }>(raw);
+    let repaired = profile;
+    for (const path of paths) {
+      const value = parsed.repairs?.[path];
+      if (value !== undefined) repaired = setPathValue(repaired, path, value);
+    }
+
+    const remaining = new Set(issuePaths(validateAgainstJsonSchema(jsonSchema, repaired)));
+    return {
+      profile: repaired,
+      repair: {
+        attempted: paths,
+        repaired: paths.filter((path) => !remaining.has(path) && getPathValue(repaired, path) !== undefined),
+      },
+    };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return {
+      profile,
+      repair: {
+        attempted: paths,
+        repaired: [],
+        error: err instanceof Error ? err.message : 'Unknown error',
+      },
+    };
+  }
+}
+
 /**
  * Generate a profile using either single-pass or multi-pass,
  * depending on whether the schema has generationOrder defined.
  */
 export async function generateProfile(
-  apiKey: string,
+  target: LLMTarget,
   schema: SchemaPreset,
   userInput: string,
-  callbacks: MultiPassCallbacks
+  constraints: GenerationConstraints,
+  callbacks: MultiPassCallbacks,
+  signal?: AbortSignal,
+  profileId?: string
 ): Promise<void> {
-  const callFn = callOpenAI;
-
   if (isMultiPass(schema)) {
-    await generateMultiPass(callFn, apiKey, schema, userInput, callbacks);
+    await generateMultiPass(target, schema, userInput, constraints, callbacks, signal, profileId);
   } else {
-    await generateSinglePass(callFn, apiKey, schema, userInput, callbacks);
+    await generateSinglePass(target, schema, userInput, constraints, callbacks, signal, profileId);
   }
 }
 
 /**
- * Refine either selected root fields or a full profile.
+ * Continue a multi-pass run that stopped or failed. Finished passes are taken
+ * from `draft.profile` as they are now, so fields edited since the run stopped
+ * feed the remaining passes. Single-pass schemas simply regenerate.
+ */
+export async function resumeGeneration(
+  target: LLMTarget,
+  schema: SchemaPreset,
+  userInput: string,
+  constraints: GenerationConstraints,
+  draft: PartialGeneration,
+  callbacks: MultiPassCallbacks,
+  signal?: AbortSignal,
+  profileId?: string
+): Promise<void> {
+  if (!isMultiPass(schema)) {
+    await generateSinglePass(target, schema, userInput, constraints, callbacks, signal, profileId);
+    return;
+  }
+  const totalPasses = resolveGenerationPasses(schema).length;
+  if (totalPasses !== draft.totalPasses) {
+    callbacks.onError(`The schema now has ${totalPasses} passes instead of ${draft.totalPasses}, so this draft cannot be resumed. Generate a new profile instead.`);
+    return;
+  }
+  await generateMultiPass(target, schema, userInput, constraints, callbacks, signal, profileId, draft);
+}
+
+/**
+ * Refine selected fields or a full profile. Selected paths may be nested
+ * (`stats.strength`); only those subtrees are requested, validated (with one
+ * repair call when needed) and merged back.
  * If selectedFieldPaths is empty, regenerates the full profile.
  */
 export async function refineProfile(
-  apiKey: string,
+  target: LLMTarget,
   schema: SchemaPreset,
   currentProfile: Record<string, unknown>,
   originalBrief: string | undefined,
@@ -120,17 +243,18 @@ export async function refineProfile(
   selectedFieldPaths: string[],
   lockedFieldPaths: string[],
   constraintProfile: Record<string, unknown> | undefined,
-  onToken: (token: string) => void
+  onToken: (token: string) => void,
+  signal?: AbortSignal,
+  profileId?: string
 ): Promise<GenerationResult> {
-  const targetFields = resolveTargetFields(schema, selectedFieldPaths);
-  const selectedKeys = rootFieldKeys(selectedFieldPaths);
-  const partial = selectedKeys.length > 0;
+  const subtree = selectFieldSubtree(schema.fields, selectedFieldPaths);
+  const partial = subtree.length > 0;
+  const targetFields = partial ? subtree : schema.fields;
+  const targetPaths = fieldLeafPaths(targetFields);
   const targetSchema = buildJsonSchemaForFields(targetFields);
+  const meter = createUsageMeter();
 
-  const raw = await callOpenAI({
-    apiKey,
-    model: FIXED_MODEL,
-    temperature: FIXED_TEMPERATURE,
+  const raw = await callLLM(target, {
     systemPrompt: buildRefineSystemPrompt(schema, partial),
     userPrompt: buildRefineUserPrompt({
       schema,
@@ -138,37 +262,43 @@ export async function refineProfile(
       originalBrief,
       instruction,
       targetJsonSchema: targetSchema,
-      selectedRootKeys: selectedKeys,
+      targetPaths,
       lockedFieldPaths,
       constraintProfile,
       partial,
     }),
+    responseSchema: { name: 'profile_refinement', schema: targetSchema },
     onToken,
+    onUsage: meter.onUsage,
+    signal,
+    log: { label: partial ? 'Refine fields' : 'Refine profile', profileId, schemaId: schema.id },
   });
 
-  const parsed = JSON.parse(raw) as Record<string, unknown>;
-  const merged = partial ? { ...currentProfile, ...parsed } : parsed;
+  // Refined fields must meet the same schema limits as generated ones before they are merged.
+  const validated = await validateAndRepair(target, schema, targetSchema, parseJsonObject(raw), onToken, meter.onUsage, signal, profileId);
+  const merged = partial ? mergePathValues(currentProfile, validated.profile, targetPaths) : validated.profile;
   const profile = enforceLockedPaths(currentProfile, merged, lockedFieldPaths);
   return {
     profile,
     raw,
-    provider: FIXED_PROVIDER,
-    model: FIXED_MODEL,
+    provider: target.provider,
+    model: target.model,
+    repair: validated.repair,
+    tokensUsed: meter.total,
   };
 }
 
 export async function suggestProfileTransforms(
-  apiKey: string,
+  target: LLMTarget,
   schema: SchemaPreset,
   currentProfile: Record<string, unknown>,
   selectedFieldPaths: string[],
-  onToken?: (token: string) => void
+  onToken?: (token: string) => void,
+  signal?: AbortSignal,
+  profileId?: string
 ): Promise<string[]> {
-  const selectedKeys = rootFieldKeys(selectedFieldPaths);
-  const raw = await callOpenAI({
-    apiKey,
-    model: FIXED_MODEL,
-    temperature: 0.7,
+  const selectedPaths = fieldLeafPaths(selectFieldSubtree(schema.fields, selectedFieldPaths));
+  const raw = await callLLM(target, {
     systemPrompt: `You generate concise one-click prompt transforms for profile refinement UX.
 
 Return JSON only:
@@ -191,15 +321,17 @@ Current profile:
 ${JSON.stringify(currentProfile, null, 2)}
 \`\`\`
 
-${selectedKeys.length > 0
-  ? `Selected top-level fields: ${selectedKeys.join(', ')}`
+${selectedPaths.length > 0
+  ? `Selected fields: ${selectedPaths.join(', ')}`
   : 'No selected fields. Provide whole-profile transforms.'}
 
 Return only JSON.`,
     onToken: onToken ?? (() => {}),
+    signal,
+    log: { label: 'Profile transform suggestions', profileId, schemaId: schema.id },
   });
 
-  const parsed = JSON.parse(raw) as { transforms?: unknown };
+  const parsed = parseJsonObject<{ transforms?: unknown }>(raw);
   if (!parsed.transforms || !Array.isArray(parsed.transforms)) return [];
   return parsed.transforms
     .map((item) => String(item).trim())
@@ -207,81 +339,362 @@ Return only JSON.`,
     .slice(0, 10);
 }
 
+/** How many distinct values a field can offer besides its current one. */
+function maxAlternatives(field: SchemaField): number {
+  switch (field.type) {
+    case 'boolean':
+      return 1;
+    case 'enum':
+      return Math.max(0, (field.options ?? []).length - 1);
+    case 'scale':
+      return Math.max(0, (field.levels ?? []).length - 1);
+    default:
+      return Number.POSITIVE_INFINITY;
+  }
+}
+
+/**
+ * Proposes up to `count` distinct replacement values for one field, holding
+ * every other field as a fixed constraint. Values that fail the field's JSON
+ * schema, repeat one another or repeat the current value are dropped.
+ */
+export async function suggestFieldAlternatives(
+  target: LLMTarget,
+  schema: SchemaPreset,
+  currentProfile: Record<string, unknown>,
+  fieldPath: string,
+  count: number,
+  originalBrief?: string,
+  signal?: AbortSignal,
+  profileId?: string
+): Promise<FieldAlternatives> {
+  const field = fieldAtPath(schema.fields, fieldPath);
+  const fieldSchema = jsonSchemaAtPath(buildJsonSchema(schema), fieldPath);
+  if (!field || !fieldSchema) throw new Error(`${fieldPath} is not a field of ${schema.name}.`);
+
+  const currentValue = getPathValue(currentProfile, fieldPath);
+  const wanted = Math.min(count, maxAlternatives(field));
+  if (wanted < 1) throw new Error(`${field.label} has no other values to choose from.`);
+  const result = { path: fieldPath, provider: target.provider, model: target.model };
+  if (field.type === 'boolean') {
+    return { ...result, values: [!currentValue] };
+  }
+
+  const meter = createUsageMeter();
+  const responseSchema = {
+    type: 'object',
+    properties: { alternatives: { type: 'array', minItems: wanted, maxItems: wanted, items: fieldSchema } },
+    required: ['alternatives'],
+  };
+  const raw = await callLLM(target, {
+    systemPrompt: `You propose alternative values for one field of an existing character profile.
+
+You MUST respond with valid JSON only.
+- Every alternative must be a complete, valid value for the field's JSON schema.
+- Alternatives must differ clearly from the current value and from each other; vary tone and substance, not just wording.
+- Every other field in the profile is fixed. Each alternative must stay consistent with all of them.
+- Keep the length and style the schema description asks for.
+
+Schema name: ${schema.name}
+${schema.description ? `Schema description: ${schema.description}` : ''}`,
+    userPrompt: `Current profile:
+\`\`\`json
+${JSON.stringify(currentProfile, null, 2)}
+\`\`\`
+
+${originalBrief ? `Original user brief:
+${originalBrief}
+` : ''}
+Field: ${fieldPath} (${field.label})
+Current value: ${JSON.stringify(currentValue)}
+
+Field JSON schema:
+\`\`\`json
+${JSON.stringify(fieldSchema, null, 2)}
+\`\`\`
+
+Return exactly ${wanted} alternatives as { "alternatives": [...] }.`,
+    responseSchema: { name: 'field_alternatives', schema: responseSchema },
+    onToken: () => {},
+    onUsage: meter.onUsage,
+    signal,
+    log: { label: `Field alternatives: ${fieldPath}`, profileId, schemaId: schema.id },
+  });
+
+  const parsed = parseJsonObject<{ alternatives?: unknown }>(raw);
+  const seen = new Set([JSON.stringify(currentValue)]);
+  const values = (Array.isArray(parsed.alternatives) ? parsed.alternatives : []).filter((value) => {
+    const key = JSON.stringify(value);
+    if (seen.has(key) || validateAgainstJsonSchema(fieldSchema, value).length > 0) return false;
+    seen.add(key);
+    return true;
+  });
+  if (values.length === 0) throw new Error('The model returned no usable alternatives. Try again.');
+  return { ...result, values, tokensUsed: meter.total };
+}
+
+/** Reviews judge rather than create, so they run cooler than the task's own temperature. */
+const CONSISTENCY_REVIEW_TEMPERATURE = 0.3;
+const MAX_CONSISTENCY_ISSUES = 8;
+
+/**
+ * Critic pass: checks a finished profile against its schema's `dependsOn`
+ * relations and generation hints, and returns the contradictions it finds.
+ * Issue paths are limited to the schema's field paths.
+ */
+export async function reviewProfileConsistency(
+  target: LLMTarget,
+  schema: SchemaPreset,
+  profile: Record<string, unknown>,
+  originalBrief?: string,
+  signal?: AbortSignal,
+  profileId?: string
+): Promise<ConsistencyReview> {
+  const fieldPaths = flattenFieldOptions(schema.fields).map((option) => option.path);
+  const meter = createUsageMeter();
+  const raw = await callLLM({ ...target, temperature: Math.min(target.temperature, CONSISTENCY_REVIEW_TEMPERATURE) }, {
+    systemPrompt: buildConsistencySystemPrompt(schema),
+    userPrompt: buildConsistencyUserPrompt(schema, profile, originalBrief),
+    responseSchema: {
+      name: 'consistency_review',
+      schema: {
+        type: 'object',
+        properties: {
+          issues: {
+            type: 'array',
+            maxItems: MAX_CONSISTENCY_ISSUES,
+            items: {
+              type: 'object',
+              properties: {
+                paths: { type: 'array', minItems: 1, items: { type: 'string', enum: fieldPaths } },
+                explanation: { type: 'string', description: 'What contradicts what, in one sentence' },
+                suggestedFix: { type: 'string', description: 'A concrete instruction for regenerating the paths' },
+              },
+              required: ['paths', 'explanation', 'suggestedFix'],
+            },
+          },
+        },
+        required: ['issues'],
+      },
+    },
+    onToken: () => {},
+    onUsage: meter.onUsage,
+    signal,
+    log: { label: 'Consistency review', profileId, schemaId: schema.id },
+  });
+
+  const parsed = parseJsonObject<{ issues?: unknown }>(raw);
+  const known = new Set(fieldPaths);
+  const issues = (Array.isArray(parsed.issues) ? parsed.issues : [])
+    .map((item): ConsistencyIssue | null => {
+      if (!item || typeof item !== 'object') return null;
+      const { paths, explanation, suggestedFix } = item as Record<string, unknown>;
+      const validPaths = Array.isArray(paths)
+        ? Array.from(new Set(paths.map(String).filter((path) => known.has(path))))
+        : [];
+      if (validPaths.length === 0 || typeof explanation !== 'string' || !explanation.trim()) return null;
+      return {
+        paths: validPaths,
+        explanation: explanation.trim(),
+        suggestedFix: typeof suggestedFix === 'string' ? suggestedFix.trim() : '',
+      };
+    })
+    .filter((issue): issue is ConsistencyIssue => !!issue)
+    .slice(0, MAX_CONSISTENCY_ISSUES);
+  return { issues, tokensUsed: meter.total };
+}
+
 async function generateSinglePass(
-  callFn: LLMCallFn,
-  apiKey: string,
+  target: LLMTarget,
   schema: SchemaPreset,
   userInput: string,
-  callbacks: MultiPassCallbacks
+  constraints: GenerationConstraints,
+  callbacks: MultiPassCallbacks,
+  signal?: AbortSignal,
+  profileId?: string
 ): Promise<void> {
   const jsonSchema = buildJsonSchema(schema);
   const systemPrompt = buildSystemPrompt(schema);
-  const userPrompt = buildUserPrompt(schema, userInput, jsonSchema);
+  const userPrompt = buildUserPrompt(schema, userInput, jsonSchema, constraints);
 
   callbacks.onPassStart(0, 1, schema.fields.map((f) => f.key));
+  callbacks.onProgress?.({ totalPasses: 1, running: [0], completed: [] });
+  const meter = createUsageMeter();
+  const onToken = (token: string) => callbacks.onToken(token, 0);
 
   try {
-    const raw = await callFn({
-      apiKey,
-      model: FIXED_MODEL,
-      temperature: FIXED_TEMPERATURE,
+    const raw = await callLLM(target, {
       systemPrompt,
       userPrompt,
-      onToken: callbacks.onToken,
+      responseSchema: { name: 'character_profile', schema: jsonSchema },
+      onToken,
+      onUsage: meter.onUsage,
+      signal,
+      log: { label: 'Generate profile', profileId, schemaId: schema.id },
     });
 
-    const profile = JSON.parse(raw);
+    const validated = await validateAndRepair(target, schema, jsonSchema, parseJsonObject(raw), onToken, meter.onUsage, signal, profileId);
+    // Seeds win over whatever the model or the repair pass produced.
+    const profile = enforceSeededPaths(validated.profile, constraints.seeds);
     callbacks.onPassComplete(0, profile);
-    callbacks.onComplete({ profile, raw, provider: FIXED_PROVIDER, model: FIXED_MODEL });
+    callbacks.onProgress?.({ totalPasses: 1, running: [], completed: [0] });
+    callbacks.onComplete({ profile, raw, provider: target.provider, model: target.model, repair: validated.repair, tokensUsed: meter.total });
   } catch (err) {
+    if (isAbortError(err) && callbacks.onCancel) {
+      callbacks.onCancel({ profile: {}, completedPasses: [], totalPasses: 1 });
+      return;
+    }
     callbacks.onError(err instanceof Error ? err.message : 'Unknown error');
   }
 }
 
+/** Every pass `passIndex` waits on, directly or through other passes. */
+function collectAncestors(dependencies: number[][], passIndex: number): Set<number> {
+  const ancestors = new Set<number>();
+  const stack = [...dependencies[passIndex]];
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (ancestors.has(index)) continue;
+    ancestors.add(index);
+    stack.push(...dependencies[index]);
+  }
+  return ancestors;
+}
+
+/**
+ * Merge pass outputs path by path in pass order, so passes that split one
+ * object combine and key order does not depend on which pass finished first.
+ */
+function mergePassOutputs(
+  outputs: (Record<string, unknown> | undefined)[],
+  passPaths: string[][],
+  include?: Set<number>
+): Record<string, unknown> {
+  return outputs.reduce<Record<string, unknown>>((merged, output, index) => (
+    output && (!include || include.has(index)) ? mergePathValues(merged, output, passPaths[index]) : merged
+  ), {});
+}
+
+/**
+ * Runs each pass as soon as the passes it depends on have finished, so
+ * independent passes overlap. A pass sees only the output of the passes it
+ * depends on (directly or transitively), which keeps results independent of
+ * timing. The first failure stops every other pass in flight. With `resume`,
+ * its finished passes are taken as done and only the rest run.
+ */
 async function generateMultiPass(
-  callFn: LLMCallFn,
-  apiKey: string,
+  target: LLMTarget,
   schema: SchemaPreset,
   userInput: string,
-  callbacks: MultiPassCallbacks
+  constraints: GenerationConstraints,
+  callbacks: MultiPassCallbacks,
+  signal?: AbortSignal,
+  profileId?: string,
+  resume?: PartialGeneration
 ): Promise<void> {
   const passes = resolveGenerationPasses(schema);
-  const accumulatedProfile: Record<string, unknown> = {};
+  const dependencies = resolvePassDependencies(passes);
+  const passPaths = passes.map((passFields) => fieldLeafPaths(passFields));
+  const resumed = new Set(resume?.completedPasses ?? []);
+  const outputs: (Record<string, unknown> | undefined)[] = passes.map((_, i) => (resumed.has(i) ? resume?.profile : undefined));
+  const repairs: (RepairReport | undefined)[] = [];
+  const meter = createUsageMeter();
+  const running = new Set<number>();
+  const completed: number[] = Array.from(resumed).sort((a, b) => a - b);
+  let failure = null as { passIndex: number; error: unknown } | null;
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+
+  const reportProgress = () => callbacks.onProgress?.({
+    totalPasses: passes.length,
+    running: Array.from(running).sort((a, b) => a - b),
+    completed: [...completed],
+  });
 
-  try {
-    for (let i = 0; i < passes.length; i++) {
-      const passFields = passes[i];
-      const passKeys = passFields.map((f) => f.key);
-
-      callbacks.onPassStart(i, passes.length, passKeys);
-
-      const passJsonSchema = buildJsonSchemaForFields(passFields);
-      const systemPrompt = buildPassSystemPrompt(schema, i, passes.length);
-      const userPrompt = buildPassUserPrompt(schema, passFields, passJsonSchema, accumulatedProfile, userInput, i);
-
-      const raw = await callFn({
-        apiKey,
-        model: FIXED_MODEL,
-        temperature: FIXED_TEMPERATURE,
-        systemPrompt,
-        userPrompt,
-        onToken: callbacks.onToken,
-      });
+  const runPass = async (i: number) => {
+    const passFields = passes[i];
+    const onToken = (token: string) => callbacks.onToken(token, i);
+
+    running.add(i);
+    callbacks.onPassStart(i, passes.length, passPaths[i]);
+    reportProgress();
+
+    const passJsonSchema = buildJsonSchemaForFields(passFields);
+    const priorOutput = mergePassOutputs(outputs, passPaths, collectAncestors(dependencies, i));
+    const systemPrompt = buildPassSystemPrompt(schema, i, passes.length);
+    const userPrompt = buildPassUserPrompt(schema, passFields, passJsonSchema, priorOutput, userInput, i, constraints);
+
+    const raw = await callLLM(target, {
+      systemPrompt,
+      userPrompt,
+      responseSchema: { name: `character_profile_pass_${i + 1}`, schema: passJsonSchema },
+      onToken,
+      onUsage: meter.onUsage,
+      signal: controller.signal,
+      log: { label: `Generate pass ${i + 1}/${passes.length}`, profileId, schemaId: schema.id },
+    });
 
-      // Parse this pass's output and merge into accumulated profile
-      const passResult = JSON.parse(raw);
-      Object.assign(accumulatedProfile, passResult);
+    // Parse and validate this pass's output; seeds win over the model and the repair pass.
+    const passResult = await validateAndRepair(target, schema, passJsonSchema, parseJsonObject(raw), onToken, meter.onUsage, controller.signal, profileId);
+    repairs[i] = passResult.repair;
+    outputs[i] = enforceSeededPaths(passResult.profile, constraints.seeds, passPaths[i]);
+
+    running.delete(i);
+    completed.push(i);
+    callbacks.onPassComplete(i, mergePassOutputs(outputs, passPaths));
+    reportProgress();
+  };
 
-      callbacks.onPassComplete(i, { ...accumulatedProfile });
+  const scheduled = new Map<number, Promise<void>>();
+  const schedule = (i: number): Promise<void> => {
+    let task = scheduled.get(i);
+    if (!task) {
+      task = Promise.all(dependencies[i].map(schedule)).then(async () => {
+        if (resumed.has(i) || failure || controller.signal.aborted) return;
+        try {
+          await runPass(i);
+        } catch (error) {
+          running.delete(i);
+          failure ??= { passIndex: i, error };
+          controller.abort();
+        }
+      });
+      scheduled.set(i, task);
     }
+    return task;
+  };
 
+  try {
+    await Promise.all(passes.map((_, i) => schedule(i)));
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+
+  // Check seeds once more on the merged profile, field by field so a partial object seed keeps generated siblings.
+  const profile = enforceSeededPaths(mergePassOutputs(outputs, passPaths), constraints.seeds, passPaths.flat());
+  if (completed.length === passes.length) {
     callbacks.onComplete({
-      profile: accumulatedProfile,
-      raw: JSON.stringify(accumulatedProfile, null, 2),
-      provider: FIXED_PROVIDER,
-      model: FIXED_MODEL,
+      profile,
+      raw: JSON.stringify(profile, null, 2),
+      provider: target.provider,
+      model: target.model,
+      repair: mergeRepairReports(repairs),
+      tokensUsed: meter.total,
     });
-  } catch (err) {
-    callbacks.onError(err instanceof Error ? err.message : 'Unknown error');
+    return;
+  }
+
+  // Keep whatever the finished passes produced so the caller can save a resumable draft.
+  const partial: PartialGeneration = { profile, completedPasses: [...completed], totalPasses: passes.length };
+  const error = failure?.error;
+  if ((!failure || isAbortError(error)) && callbacks.onCancel) {
+    callbacks.onCancel(partial);
+    return;
   }
+  const failedPass = failure?.passIndex ?? completed.length;
+  const message = error instanceof Error ? error.message : failure ? 'Unknown error' : 'Generation was cancelled';
+  callbacks.onError(`Pass ${failedPass + 1}/${passes.length} failed: ${message}`, completed.length > 0 ? partial : undefined);
 }
@@ -0,0 +1,98 @@
+import type { LLMCallStatus, LLMProvider, LLMTarget, TokenUsage } from '@/types';
+import { callOpenAI } from './openai';
+import { callAnthropic } from './anthropic';
+import { callGemini } from './gemini';
+import { callLocal } from './local';
+import { callMock } from './mock';
+import { useUsageStore } from '@/stores/usageStore';
+import { useCallLogStore } from '@/stores/callLogStore';
+import { generateId, isAbortError } from '@/lib/utils';
+import { supportsStructuredOutput, type LLMCallConfig, type LLMCallFn } from './types';
+
+/** What a call is for; recorded with it in the call log */
+export interface CallLogContext {
+  label: string;
+  profileId?: string;
+  schemaId?: string;
+}
+
+export type LLMRequest = Omit<LLMCallConfig, 'apiKey' | 'model' | 'baseUrl' | 'mock' | 'temperature'> & {
+  log?: CallLogContext;
+};
+
+const PROVIDER_CLIENTS: Record<LLMProvider, LLMCallFn> = {
+  openai: callOpenAI,
+  anthropic: callAnthropic,
+  gemini: callGemini,
+  local: callLocal,
+  mock: callMock,
+};
+
+export function getProviderClient(provider: LLMProvider): LLMCallFn {
+  const client = PROVIDER_CLIENTS[provider];
+  if (!client) throw new Error(`Unknown LLM provider: ${provider}`);
+  return client;
+}
+
+/**
+ * Route a single call to the client registered for the target's provider.
+ * A response schema is only forwarded when the target model can enforce it;
+ * otherwise the call falls back to the provider's plain JSON mode.
+ * Reported usage is added to the session totals before reaching the caller,
+ * and every call, including failed and cancelled ones, is written to the call log.
+ */
+export async function callLLM(target: LLMTarget, request: LLMRequest): Promise<string> {
+  const { log, ...call } = request;
+  const structured = supportsStructuredOutput(target.provider, target.model);
+  const startedAt = new Date();
+  let streamed = '';
+  let usage: TokenUsage | undefined;
+
+  const record = (status: LLMCallStatus, output: string, error?: string) => {
+    void useCallLogStore.getState().addCall({
+      id: generateId(),
+      label: log?.label ?? 'LLM call',
+      provider: target.provider,
+      model: target.model,
+      temperature: target.temperature,
+      systemPrompt: call.systemPrompt,
+      userPrompt: call.userPrompt,
+      responseSchema: call.responseSchema,
+      output,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      status,
+      usage,
+      error,
+      profileId: log?.profileId,
+      schemaId: log?.schemaId,
+    }).catch(() => {});
+  };
+
+  try {
+    const output = await getProviderClient(target.provider)({
+      ...call,
+      apiKey: target.apiKey,
+      model: target.model,
+      baseUrl: target.baseUrl,
+      mock: target.mock,
+      temperature: target.temperature,
+      responseSchema: structured ? call.responseSchema : undefined,
+      onToken: (token) => {
+        streamed += token;
+        call.onToken(token);
+      },
+      onUsage: (reported) => {
+        usage = reported;
+        useUsageStore.getState().record(target.provider, target.model, reported);
+        call.onUsage?.(reported);
+      },
+    });
+    record('complete', output);
+    return output;
+  } catch (err) {
+    if (isAbortError(err)) record('cancelled', streamed);
+    else record('error', streamed, err instanceof Error ? err.message : 'Unknown error');
+    throw err;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { mergeReplayOutput } from './replay';
+import type { GeneratedProfile, SchemaPreset } from '@/types';
+
+const schema: SchemaPreset = {
+  id: 'schema',
+  name: 'Test',
+  version: 1,
+  createdAt: '',
+  updatedAt: '',
+  fields: [
+    { key: 'name', label: 'Name', type: 'text', description: '', seedable: true },
+    {
+      key: 'appearance',
+      label: 'Appearance',
+      type: 'object',
+      description: '',
+      seedable: false,
+      fields: [
+        { key: 'hair', label: 'Hair', type: 'text', description: '', seedable: false },
+        { key: 'eyes', label: 'Eyes', type: 'text', description: '', seedable: false },
+      ],
+    },
+  ],
+};
+
+const profile = {
+  profile: { name: 'Mara', appearance: { hair: 'black', eyes: 'grey' } },
+} as unknown as GeneratedProfile;
+
+describe('mergeReplayOutput', () => {
+  it('merges a nested pass without wiping sibling fields', () => {
+    const merged = mergeReplayOutput(profile, schema, '{"appearance":{"hair":"silver"}}');
+    expect(merged.snapshot).toEqual({ name: 'Mara', appearance: { hair: 'silver', eyes: 'grey' } });
+    expect(merged.mergedPaths).toEqual(['appearance.hair']);
+  });
+
+  it('drops keys the schema does not define', () => {
+    const merged = mergeReplayOutput(profile, schema, '{"name":"Ines","mood":"wry"}');
+    expect(merged.snapshot).toEqual({ name: 'Ines', appearance: { hair: 'black', eyes: 'grey' } });
+    expect(merged.mergedPaths).toEqual(['name']);
+  });
+
+  it('replaces top-level keys whole without a schema', () => {
+    const merged = mergeReplayOutput(profile, null, '{"appearance":{"hair":"silver"}}');
+    expect(merged.snapshot.appearance).toEqual({ hair: 'silver' });
+    expect(profile.profile.appearance).toEqual({ hair: 'black', eyes: 'grey' });
+  });
+});
@@ -0,0 +1,54 @@
+import type { GeneratedProfile, LLMCallRecord, LLMTarget, SchemaPreset, TokenUsage } from '@/types';
+import { callLLM } from './registry';
+import { parseJsonObject } from '@/lib/json';
+import { fieldLeafPaths } from '@/lib/fieldPaths';
+import { getPathValue, mergePathValues } from '@/lib/workspace';
+
+export interface ReplayResult {
+  raw: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Re-run a logged call with edited prompts, optionally on another target.
+ * The replay is logged as its own call, linked to the same profile and schema.
+ */
+export async function replayCall(
+  call: LLMCallRecord,
+  target: LLMTarget,
+  prompts: { systemPrompt: string; userPrompt: string },
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<ReplayResult> {
+  let usage: TokenUsage | undefined;
+  const raw = await callLLM(target, {
+    systemPrompt: prompts.systemPrompt,
+    userPrompt: prompts.userPrompt,
+    responseSchema: call.responseSchema,
+    onToken,
+    onUsage: (reported) => {
+      usage = reported;
+    },
+    signal,
+    log: { label: `Replay: ${call.label}`, profileId: call.profileId, schemaId: call.schemaId },
+  });
+  return { raw, usage };
+}
+
+/**
+ * Merge replayed JSON output into a profile the way a generation pass does:
+ * each schema leaf path present in the output replaces the profile's value,
+ * so a pass that wrote `appearance.hair` leaves the rest of `appearance`
+ * alone, and stray output cannot add fields. Without a schema, top-level
+ * keys are replaced whole.
+ */
+export function mergeReplayOutput(
+  profile: GeneratedProfile,
+  schema: SchemaPreset | null,
+  raw: string
+): { snapshot: Record<string, unknown>; mergedPaths: string[] } {
+  const parsed = parseJsonObject(raw);
+  const mergedPaths = (schema ? fieldLeafPaths(schema.fields) : Object.keys(parsed))
+    .filter((path) => getPathValue(parsed, path) !== undefined);
+  return { snapshot: mergePathValues(profile.profile, parsed, mergedPaths), mergedPaths };
+}
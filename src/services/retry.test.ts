@@ -0,0 +1,70 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchWithRetry } from './retry';
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const options = { label: 'Test', readError: async (response: Response) => response.text() };
+
+function reply(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(status === 200 ? 'ok' : 'busy', { status, headers });
+}
+
+describe('fetchWithRetry', () => {
+  it('waits as long as Retry-After asks before trying again', async () => {
+    const request = vi.fn()
+      .mockResolvedValueOnce(reply(429, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(reply(200));
+
+    const result = fetchWithRetry(request, options);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await result).status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns non-retryable failures without retrying', async () => {
+    const request = vi.fn().mockResolvedValue(reply(400));
+    expect((await fetchWithRetry(request, options)).status).toBe(400);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up on a retryable status after the last attempt', async () => {
+    const request = vi.fn().mockImplementation(async () => reply(503));
+    const result = fetchWithRetry(request, { ...options, maxAttempts: 3 });
+    const settled = expect(result).rejects.toThrow('Test HTTP 503 after 3 attempts: busy');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on network errors after the last attempt', async () => {
+    const request = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const result = fetchWithRetry(request, { ...options, maxAttempts: 2 });
+    const settled = expect(result).rejects.toThrow('Test request failed: fetch failed. Gave up after 2 attempts.');
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockResolvedValue(reply(503));
+    const result = fetchWithRetry(request, { ...options, signal: controller.signal });
+    const settled = expect(result).rejects.toThrow('aborted');
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await settled;
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,104 @@
+import { useConsoleStreamStore } from '@/stores/consoleStreamStore';
+import { isAbortError } from '@/lib/utils';
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const MAX_RETRY_AFTER_MS = 120000;
+
+/** 429 rate limits, 408 timeouts, transient 5xx and Anthropic's 529 "overloaded". */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+export interface RetryOptions {
+  /** Provider name used in console notes and the final error */
+  label: string;
+  signal?: AbortSignal;
+  /** Extracts a readable message from a failed response */
+  readError: (response: Response) => Promise<string>;
+  maxAttempts?: number;
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  // Full jitter keeps parallel batch calls from retrying in lockstep.
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function noteRetry(label: string, reason: string, attempt: number, maxAttempts: number, delayMs: number) {
+  useConsoleStreamStore.getState().appendToken(
+    `\n[retry] ${label} ${reason}; attempt ${attempt + 1}/${maxAttempts} in ${(delayMs / 1000).toFixed(1)}s\n`
+  );
+}
+
+/**
+ * Sends a request, retrying rate limits, transient server errors and network
+ * failures with jittered exponential backoff. `Retry-After` wins over the
+ * computed delay when present.
+ *
+ * Resolves with the first successful or non-retryable response, so callers keep
+ * their own error handling for 4xx. Throws once retries are exhausted.
+ */
+export async function fetchWithRetry(
+  request: () => Promise<Response>,
+  options: RetryOptions
+): Promise<Response> {
+  const maxAttempts = options.maxAttempts ?? MAX_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await request();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (attempt >= maxAttempts) {
+        const message = error instanceof Error ? error.message : 'Network error';
+        throw new Error(`${options.label} request failed: ${message}. Gave up after ${attempt} attempts.`);
+      }
+      const delay = backoffDelay(attempt);
+      noteRetry(options.label, 'network error', attempt, maxAttempts, delay);
+      await sleep(delay, options.signal);
+      continue;
+    }
+
+    if (response.ok || !RETRYABLE_STATUSES.has(response.status)) return response;
+
+    if (attempt >= maxAttempts) {
+      const message = await options.readError(response);
+      throw new Error(`${options.label} HTTP ${response.status} after ${attempt} attempts: ${message}`);
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    const delay = retryAfter !== null ? Math.min(MAX_RETRY_AFTER_MS, retryAfter) : backoffDelay(attempt);
+    // Drain the body so the connection can be reused.
+    await response.body?.cancel().catch(() => {});
+    noteRetry(options.label, `HTTP ${response.status}`, attempt, maxAttempts, delay);
+    await sleep(delay, options.signal);
+  }
+}
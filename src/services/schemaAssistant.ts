@@ -1,16 +1,8 @@
-import type { SchemaField, SchemaPreset } from '@/types';
-import { callOpenAI } from './openai';
-import { FIXED_MODEL, FIXED_TEMPERATURE } from './types';
+import type { LLMTarget, SchemaConstraint, SchemaField, SchemaPreset } from '@/types';
+import { callLLM } from './registry';
 import { ensureFieldsHaveReadableNameField } from '@/lib/profileIdentity';
-
-type LLMCallFn = (config: {
-  apiKey: string;
-  model: string;
-  temperature: number;
-  systemPrompt: string;
-  userPrompt: string;
-  onToken: (token: string) => void;
-}) => Promise<string>;
+import { extractJsonObject } from '@/lib/json';
+import { parseConstraints } from '@/lib/constraints';
 
 export interface SchemaDraft {
   name: string;
@@ -19,6 +11,8 @@ export interface SchemaDraft {
   examples?: Record<string, unknown>[];
   specificity?: SchemaPreset['specificity'];
   generationOrder?: string[][];
+  /** Carried over from imported files; AI drafts never apply constraints */
+  constraints?: SchemaConstraint[];
 }
 
 function buildSuggestTransformsSystemPrompt(): string {
@@ -79,23 +73,6 @@ ${lockedKeys.length > 0 ? `\nLocked top-level fields (must remain unchanged): ${
 Return the full updated schema JSON object.`;
 }
 
-function extractJsonObject(raw: string): string {
-  const trimmed = raw.trim();
-  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
-    return trimmed;
-  }
-  const codeFenceMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
-  if (codeFenceMatch?.[1]) {
-    return codeFenceMatch[1].trim();
-  }
-  const start = trimmed.indexOf('{');
-  const end = trimmed.lastIndexOf('}');
-  if (start >= 0 && end > start) {
-    return trimmed.slice(start, end + 1);
-  }
-  throw new Error('Model did not return valid JSON.');
-}
-
 function toStringArray(value: unknown): string[] | undefined {
   if (!Array.isArray(value)) return undefined;
   const list = value.map((item) => String(item).trim()).filter(Boolean);
@@ -216,6 +193,8 @@ function sanitizeDraft(parsed: unknown): SchemaDraft {
       .filter((pass) => pass.length > 0)
     : undefined;
 
+  const constraints = parseConstraints(src.constraints);
+
   return {
     name,
     description,
@@ -223,6 +202,7 @@ function sanitizeDraft(parsed: unknown): SchemaDraft {
     examples: examples && examples.length > 0 ? examples : undefined,
     specificity,
     generationOrder: generationOrder && generationOrder.length > 0 ? generationOrder : undefined,
+    constraints: constraints.length > 0 ? constraints : undefined,
   };
 }
 
@@ -307,17 +287,17 @@ Return only the JSON object in the required shape.`;
 }
 
 export async function generateSchemaDraft(config: {
-  apiKey: string;
+  target: LLMTarget;
   goal: string;
   onToken: (token: string) => void;
+  signal?: AbortSignal;
 }): Promise<SchemaDraft> {
-  const raw = await (callOpenAI as LLMCallFn)({
-    apiKey: config.apiKey,
-    model: FIXED_MODEL,
-    temperature: FIXED_TEMPERATURE,
+  const raw = await callLLM(config.target, {
     systemPrompt: buildSystemPrompt(),
     userPrompt: buildUserPrompt(config.goal),
     onToken: config.onToken,
+    signal: config.signal,
+    log: { label: 'Draft schema' },
   });
 
   const json = extractJsonObject(raw);
@@ -330,24 +310,24 @@ export async function generateSchemaDraft(config: {
 }
 
 export async function refineSchemaDraft(config: {
-  apiKey: string;
+  target: LLMTarget;
   draft: SchemaDraft;
   instruction: string;
   selectedFieldKeys: string[];
   lockedFieldKeys: string[];
   onToken: (token: string) => void;
+  signal?: AbortSignal;
 }): Promise<SchemaDraft> {
   const selected = Array.from(new Set(config.selectedFieldKeys)).filter(Boolean);
   const locked = Array.from(new Set(config.lockedFieldKeys)).filter(Boolean);
 
   if (selected.length === 0) {
-    const raw = await (callOpenAI as LLMCallFn)({
-      apiKey: config.apiKey,
-      model: FIXED_MODEL,
-      temperature: FIXED_TEMPERATURE,
+    const raw = await callLLM(config.target, {
       systemPrompt: buildSystemPrompt(),
       userPrompt: buildRefineWholeUserPrompt(config.draft, config.instruction, locked),
       onToken: config.onToken,
+      signal: config.signal,
+      log: { label: 'Refine schema' },
     });
     const json = extractJsonObject(raw);
     const updated = sanitizeDraft(JSON.parse(json));
@@ -368,13 +348,12 @@ export async function refineSchemaDraft(config: {
     };
   }
 
-  const raw = await (callOpenAI as LLMCallFn)({
-    apiKey: config.apiKey,
-    model: FIXED_MODEL,
-    temperature: FIXED_TEMPERATURE,
+  const raw = await callLLM(config.target, {
     systemPrompt: buildRefineFieldsSystemPrompt(),
     userPrompt: `${buildRefineFieldsUserPrompt(config.draft, selected, config.instruction)}${locked.length > 0 ? `\nLocked fields that must remain unchanged if returned: ${locked.join(', ')}` : ''}`,
     onToken: config.onToken,
+    signal: config.signal,
+    log: { label: 'Refine schema fields' },
   });
   const json = extractJsonObject(raw);
   const patches = sanitizeFieldPatch(JSON.parse(json));
@@ -398,18 +377,18 @@ export async function refineSchemaDraft(config: {
 }
 
 export async function suggestSchemaTransforms(config: {
-  apiKey: string;
+  target: LLMTarget;
   draft: SchemaDraft;
   selectedFieldKeys: string[];
+  signal?: AbortSignal;
 }): Promise<string[]> {
   const selected = Array.from(new Set(config.selectedFieldKeys)).filter(Boolean);
-  const raw = await (callOpenAI as LLMCallFn)({
-    apiKey: config.apiKey,
-    model: FIXED_MODEL,
-    temperature: 0.7,
+  const raw = await callLLM(config.target, {
     systemPrompt: buildSuggestTransformsSystemPrompt(),
     userPrompt: `Schema draft:\n\`\`\`json\n${JSON.stringify(config.draft, null, 2)}\n\`\`\`\n\n${selected.length > 0 ? `Selected fields: ${selected.join(', ')}` : 'No selected fields. Suggest whole-schema transforms.'}\n\nReturn only JSON.`,
     onToken: () => {},
+    signal: config.signal,
+    log: { label: 'Schema transform suggestions' },
   });
   const json = extractJsonObject(raw);
   const parsed = JSON.parse(json) as { transforms?: unknown };
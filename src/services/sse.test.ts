@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createSSEBuffer, type SSEEvent } from './sse';
+
+function collect() {
+  const events: SSEEvent[] = [];
+  const buffer = createSSEBuffer((event) => events.push(event));
+  return { events, buffer };
+}
+
+describe('createSSEBuffer', () => {
+  it('reassembles a data line split across chunks', () => {
+    const { events, buffer } = collect();
+    buffer.push('data: {"a":');
+    buffer.push('1}\n');
+    expect(events).toEqual([]);
+    buffer.push('\n');
+    expect(events).toEqual([{ event: 'message', data: '{"a":1}' }]);
+  });
+
+  it('handles CRLF line endings, including a CRLF split across chunks', () => {
+    const { events, buffer } = collect();
+    buffer.push('event: delta\r\ndata: one\r');
+    buffer.push('\n\r\ndata: two\r\n\r\n');
+    expect(events).toEqual([
+      { event: 'delta', data: 'one' },
+      { event: 'message', data: 'two' },
+    ]);
+  });
+
+  it('joins multiple data lines with newlines', () => {
+    const { events, buffer } = collect();
+    buffer.push('data: first\ndata: second\n\n');
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  it('ignores comments, id and retry lines', () => {
+    const { events, buffer } = collect();
+    buffer.push(': keep-alive\n\n');
+    buffer.push('id: 7\nretry: 1000\n: note\ndata: payload\n\n');
+    expect(events).toEqual([{ event: 'message', data: 'payload' }]);
+  });
+
+  it('flushes an unterminated event at end of stream', () => {
+    const { events, buffer } = collect();
+    buffer.push('data: [DONE]');
+    expect(events).toEqual([]);
+    buffer.end();
+    expect(events).toEqual([{ event: 'message', data: '[DONE]' }]);
+  });
+
+  it('drops a trailing carriage return when flushing', () => {
+    const { events, buffer } = collect();
+    buffer.push('data: last\r');
+    buffer.end();
+    expect(events).toEqual([{ event: 'message', data: 'last' }]);
+  });
+});
@@ -0,0 +1,104 @@
+export interface SSEEvent {
+  /** Value of the `event:` field, or 'message' when the frame has none */
+  event: string;
+  /** `data:` lines joined with newlines */
+  data: string;
+}
+
+export interface SSEBuffer {
+  /** Feed decoded text exactly as it arrived from the network */
+  push: (text: string) => void;
+  /** Flush a trailing event the server did not terminate with a blank line */
+  end: () => void;
+}
+
+/**
+ * Incremental Server-Sent Events parser. Text is buffered until a full line
+ * is available, so `data:` lines cut across two network reads are reassembled
+ * instead of dropped. Events dispatch on the blank line that ends them;
+ * comment lines (`:`), `id:` and `retry:` are ignored.
+ */
+export function createSSEBuffer(onEvent: (event: SSEEvent) => void): SSEBuffer {
+  let pending = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') dataLines.push(value);
+    else if (field === 'event') eventName = value;
+  };
+
+  return {
+    push: (text) => {
+      pending += text;
+      // A trailing CR may be the first half of a CRLF split across reads.
+      const holdCarriageReturn = pending.endsWith('\r');
+      const complete = holdCarriageReturn ? pending.slice(0, -1) : pending;
+      const lines = complete.split(/\r\n|\r|\n/);
+      pending = (lines.pop() ?? '') + (holdCarriageReturn ? '\r' : '');
+      for (const line of lines) processLine(line);
+    },
+    end: () => {
+      const rest = pending.replace(/\r$/, '');
+      pending = '';
+      if (rest) processLine(rest);
+      dispatch();
+    },
+  };
+}
+
+/**
+ * Reads an SSE response body to completion, calling `onEvent` for every
+ * event. Errors thrown by `onEvent` (e.g. provider error frames) cancel the
+ * stream and propagate to the caller.
+ */
+export async function readSSEStream(response: Response, onEvent: (event: SSEEvent) => void): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('No response body');
+
+  const decoder = new TextDecoder();
+  const buffer = createSSEBuffer(onEvent);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer.push(decoder.decode(value, { stream: true }));
+    }
+    buffer.push(decoder.decode());
+    buffer.end();
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  }
+}
+
+/** Parses an event's JSON payload; returns null for keep-alives and non-JSON frames. */
+export function parseSSEJson<T>(data: string): T | null {
+  const trimmed = data.trim();
+  if (!trimmed || trimmed === '[DONE]') return null;
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    return null;
+  }
+}
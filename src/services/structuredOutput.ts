@@ -0,0 +1,26 @@
+/**
+ * Convert a profile JSON Schema into the strict form providers accept for
+ * structured output: every object closes with `additionalProperties: false`
+ * and requires all of its properties, and app-specific `x-*` keywords are
+ * dropped since strict validators reject unknown keys.
+ */
+export function toStrictJsonSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const strict: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key.startsWith('x-')) continue;
+    if (key === 'properties' && value && typeof value === 'object') {
+      strict.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(([name, child]) => [name, toStrictJsonSchema(child)])
+      );
+    } else if (key === 'items' && value && typeof value === 'object' && !Array.isArray(value)) {
+      strict.items = toStrictJsonSchema(value as Record<string, unknown>);
+    } else {
+      strict[key] = value;
+    }
+  }
+  if (strict.type === 'object') {
+    strict.required = Object.keys((strict.properties as Record<string, unknown> | undefined) ?? {});
+    strict.additionalProperties = false;
+  }
+  return strict;
+}
@@ -1,18 +1,130 @@
-import type { LLMProvider, ProviderConfig } from '@/types';
+import type { LLMProvider, LLMTask, MockProviderSettings, ModelPrice, ProviderConfig, TaskModelSettings, TokenUsage } from '@/types';
 
-export const FIXED_PROVIDER: LLMProvider = 'openai';
-export const FIXED_PROVIDER_NAME = 'OpenAI';
-export const FIXED_MODEL = 'gpt-5.2';
-export const FIXED_MODEL_NAME = 'GPT-5.2 Thinking';
-export const FIXED_TEMPERATURE = 0.95;
+export const DEFAULT_PROVIDER: LLMProvider = 'openai';
+export const DEFAULT_TEMPERATURE = 0.95;
+
+export const LLM_TASKS: { id: LLMTask; name: string; description: string }[] = [
+  { id: 'profileGeneration', name: 'Profile generation', description: 'Studio generation, single and multi-pass.' },
+  { id: 'profileRefinement', name: 'Profile refinement', description: 'Rewriting selected profile fields.' },
+  { id: 'chatReply', name: 'Chat replies', description: 'In-character replies in Chat.' },
+  { id: 'sceneGeneration', name: 'Scene generation', description: 'Conversation context for Chat.' },
+  { id: 'schemaDrafting', name: 'Schema drafting', description: 'Creating and refining schemas.' },
+  { id: 'transformSuggestions', name: 'Transform suggestions', description: 'Suggested refine commands for profiles and schemas.' },
+];
+
+export const DEFAULT_TASK_SETTINGS: Record<LLMTask, TaskModelSettings> = {
+  profileGeneration: { models: {}, temperature: DEFAULT_TEMPERATURE },
+  profileRefinement: { models: {}, temperature: DEFAULT_TEMPERATURE },
+  chatReply: { models: {}, temperature: DEFAULT_TEMPERATURE },
+  sceneGeneration: { models: {}, temperature: DEFAULT_TEMPERATURE },
+  schemaDrafting: { models: {}, temperature: DEFAULT_TEMPERATURE },
+  transformSuggestions: { models: {}, temperature: 0.7 },
+};
+
+/** A JSON Schema the response must conform to, named for the provider's tool or format slot. */
+export interface StructuredOutputSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCallConfig {
+  apiKey: string;
+  model: string;
+  /** Only used by the local OpenAI-compatible client */
+  baseUrl?: string;
+  /** Only used by the offline mock client */
+  mock?: MockProviderSettings;
+  temperature: number;
+  systemPrompt: string;
+  userPrompt: string;
+  onToken: (token: string) => void;
+  /** Called once with the provider-reported usage, when the stream includes it */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Strict output schema; dropped by callLLM for models without structured output */
+  responseSchema?: StructuredOutputSchema;
+  /** Aborts the request and the response stream */
+  signal?: AbortSignal;
+}
+
+/** A provider client: one streaming call in, the full text content out. */
+export type LLMCallFn = (config: LLMCallConfig) => Promise<string>;
 
 export const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
   openai: {
     id: 'openai',
-    name: FIXED_PROVIDER_NAME,
-    defaultModel: FIXED_MODEL,
+    name: 'OpenAI',
+    defaultModel: 'gpt-5.2',
+    models: [
+      { id: 'gpt-5.2', name: 'GPT-5.2 Thinking', supportsJsonMode: true, supportsStructuredOutput: true },
+      { id: 'gpt-5-mini', name: 'GPT-5 mini', supportsJsonMode: true, supportsStructuredOutput: true },
+    ],
+  },
+  anthropic: {
+    id: 'anthropic',
+    name: 'Anthropic',
+    defaultModel: 'claude-sonnet-4-5',
+    models: [
+      { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', supportsJsonMode: false, supportsStructuredOutput: true },
+      { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', supportsJsonMode: false, supportsStructuredOutput: true },
+    ],
+  },
+  gemini: {
+    id: 'gemini',
+    name: 'Gemini',
+    defaultModel: 'gemini-2.5-pro',
     models: [
-      { id: FIXED_MODEL, name: FIXED_MODEL_NAME, supportsJsonMode: true },
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', supportsJsonMode: true, supportsStructuredOutput: true },
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', supportsJsonMode: true, supportsStructuredOutput: true },
     ],
   },
+  local: {
+    id: 'local',
+    name: 'Local endpoint',
+    defaultModel: '',
+    // Model names are free-form and configured in Settings.
+    models: [],
+  },
+  mock: {
+    id: 'mock',
+    name: 'Mock (offline)',
+    defaultModel: 'mock-structured',
+    models: [
+      { id: 'mock-structured', name: 'Mock, structured output', supportsJsonMode: true, supportsStructuredOutput: true },
+    ],
+  },
+};
+
+export const DEFAULT_MOCK_SETTINGS: MockProviderSettings = {
+  seed: 1,
+  latencyMs: 250,
+  tokenDelayMs: 8,
+  errorRate: 0,
+  malformedRate: 0,
 };
+
+/** List prices in USD per million tokens; editable in Settings. */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5.2': { input: 1.75, output: 14 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+};
+
+export function isLLMProvider(value: unknown): value is LLMProvider {
+  return typeof value === 'string' && value in PROVIDER_CONFIGS;
+}
+
+/** Local endpoints usually run without auth and the mock never calls out. */
+export function requiresApiKey(provider: LLMProvider): boolean {
+  return provider !== 'local' && provider !== 'mock';
+}
+
+export function supportsStructuredOutput(provider: LLMProvider, modelId: string): boolean {
+  return PROVIDER_CONFIGS[provider]?.models.find((model) => model.id === modelId)?.supportsStructuredOutput ?? false;
+}
+
+export function getModelName(provider: LLMProvider, modelId: string): string {
+  return PROVIDER_CONFIGS[provider]?.models.find((model) => model.id === modelId)?.name ?? modelId;
+}
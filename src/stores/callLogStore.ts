@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import type { LLMCallRecord } from '@/types';
+import { storage } from '@/lib/storage';
+
+const CALLS_DIR = 'calls';
+const MAX_CALLS = 200;
+
+function byNewest(a: LLMCallRecord, b: LLMCallRecord): number {
+  return new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
+}
+
+interface CallLogState {
+  calls: LLMCallRecord[];
+  loaded: boolean;
+  loadCalls: () => Promise<void>;
+  addCall: (record: LLMCallRecord) => Promise<void>;
+  deleteCall: (id: string) => Promise<void>;
+  clearCalls: () => Promise<void>;
+}
+
+export const useCallLogStore = create<CallLogState>((set, get) => ({
+  calls: [],
+  loaded: false,
+
+  loadCalls: async () => {
+    await storage.ensureDir(CALLS_DIR);
+    const files = await storage.listDir(CALLS_DIR);
+    const loaded: LLMCallRecord[] = [];
+
+    for (const file of files) {
+      if (file.endsWith('.json')) {
+        try {
+          loaded.push(await storage.readJson<LLMCallRecord>(`${CALLS_DIR}/${file}`));
+        } catch {
+          // skip corrupt files
+        }
+      }
+    }
+
+    // Calls logged while loading are already in state.
+    set((state) => {
+      const known = new Set(state.calls.map((call) => call.id));
+      const calls = [...state.calls, ...loaded.filter((call) => !known.has(call.id))].sort(byNewest);
+      return { calls, loaded: true };
+    });
+  },
+
+  addCall: async (record) => {
+    set((state) => ({ calls: [record, ...state.calls] }));
+    await storage.writeJson(`${CALLS_DIR}/${record.id}.json`, record);
+
+    const overflow = get().calls.slice(MAX_CALLS);
+    if (overflow.length === 0) return;
+    set((state) => ({ calls: state.calls.slice(0, MAX_CALLS) }));
+    for (const call of overflow) {
+      await storage.deleteFile(`${CALLS_DIR}/${call.id}.json`).catch(() => {});
+    }
+  },
+
+  deleteCall: async (id) => {
+    await storage.deleteFile(`${CALLS_DIR}/${id}.json`);
+    set((state) => ({ calls: state.calls.filter((call) => call.id !== id) }));
+  },
+
+  clearCalls: async () => {
+    const { calls } = get();
+    set({ calls: [] });
+    for (const call of calls) {
+      await storage.deleteFile(`${CALLS_DIR}/${call.id}.json`).catch(() => {});
+    }
+  },
+}));
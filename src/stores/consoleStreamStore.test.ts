@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useConsoleStreamStore, withConsoleRun } from './consoleStreamStore';
+
+function lastFooter(): string {
+  return useConsoleStreamStore.getState().buffer.trim().split('\n').pop() ?? '';
+}
+
+beforeEach(() => {
+  useConsoleStreamStore.setState({ buffer: '', activeRuns: 0 });
+});
+
+describe('withConsoleRun', () => {
+  it('ends a run that resolves as complete', async () => {
+    await expect(withConsoleRun('Test', undefined, async () => 'done')).resolves.toBe('done');
+    expect(lastFooter()).toMatch(/<<< complete #\d+$/);
+    expect(useConsoleStreamStore.getState().activeRuns).toBe(0);
+  });
+
+  it('ends a run that throws as error and re-throws', async () => {
+    await expect(withConsoleRun('Test', undefined, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(lastFooter()).toMatch(/<<< error #\d+$/);
+  });
+
+  it('ends a run that throws after an abort as cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(withConsoleRun('Test', controller.signal, async () => { throw new Error('aborted'); })).rejects.toThrow('aborted');
+    expect(lastFooter()).toMatch(/<<< cancelled #\d+$/);
+  });
+});
@@ -17,12 +17,16 @@ interface ConsoleStreamState {
   activeRuns: number;
   buffer: string;
   nextRunId: number;
+  /** Controllers for in-flight operations; the console Stop button aborts them all */
+  controllers: AbortController[];
   open: () => void;
   close: () => void;
   clear: () => void;
   startRun: (label?: string) => number;
   appendToken: (token: string) => void;
-  endRun: (runId: number) => void;
+  endRun: (runId: number, status?: 'complete' | 'cancelled' | 'error') => void;
+  trackController: (controller: AbortController) => () => void;
+  stopAll: () => void;
 }
 
 export const useConsoleStreamStore = create<ConsoleStreamState>((set, get) => ({
@@ -31,6 +35,7 @@ export const useConsoleStreamStore = create<ConsoleStreamState>((set, get) => ({
   activeRuns: 0,
   buffer: '',
   nextRunId: 1,
+  controllers: [],
 
   open: () => set({ isOpen: true, openedManually: true }),
   close: () => set((state) => (state.activeRuns > 0 ? state : { ...state, isOpen: false, openedManually: false })),
@@ -57,10 +62,10 @@ export const useConsoleStreamStore = create<ConsoleStreamState>((set, get) => ({
     }));
   },
 
-  endRun: (runId) => {
+  endRun: (runId, status = 'complete') => {
     set((state) => {
       const nextRuns = Math.max(0, state.activeRuns - 1);
-      const footer = `\n[${nowStamp()}] <<< complete #${runId}\n`;
+      const footer = `\n[${nowStamp()}] <<< ${status} #${runId}\n`;
       return {
         isOpen: nextRuns > 0 ? true : state.openedManually,
         activeRuns: nextRuns,
@@ -68,4 +73,40 @@ export const useConsoleStreamStore = create<ConsoleStreamState>((set, get) => ({
       };
     });
   },
+
+  trackController: (controller) => {
+    set((state) => ({ controllers: [...state.controllers, controller] }));
+    return () => set((state) => ({ controllers: state.controllers.filter((item) => item !== controller) }));
+  },
+
+  stopAll: () => {
+    for (const controller of get().controllers) controller.abort();
+  },
 }));
+
+/**
+ * Creates an AbortController the console Stop button can reach.
+ * Call `release` once the operation settles.
+ */
+export function createRunController(): { controller: AbortController; release: () => void } {
+  const controller = new AbortController();
+  const release = useConsoleStreamStore.getState().trackController(controller);
+  return { controller, release };
+}
+
+/**
+ * Wraps one provider call in a console run labelled `label`. The run ends as
+ * complete when `fn` resolves, and as cancelled or error when it throws,
+ * depending on whether `signal` was aborted.
+ */
+export async function withConsoleRun<T>(label: string, signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  const runId = useConsoleStreamStore.getState().startRun(label);
+  try {
+    const result = await fn();
+    useConsoleStreamStore.getState().endRun(runId, 'complete');
+    return result;
+  } catch (error) {
+    useConsoleStreamStore.getState().endRun(runId, signal?.aborted ? 'cancelled' : 'error');
+    throw error;
+  }
+}
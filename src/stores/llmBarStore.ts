@@ -14,6 +14,8 @@ export interface LlmBarConfig {
   busy: boolean;
   allowEmptyPrompt?: boolean;
   onSubmit?: (prompt: string) => Promise<void> | void;
+  /** Shown as a Stop button while busy; aborts the view's in-flight run */
+  onCancel?: () => void;
 }
 
 interface LlmBarState {
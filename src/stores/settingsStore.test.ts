@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { useSettingsStore } from './settingsStore';
+import type { LLMProvider, TaskModelSettings } from '@/types';
+
+function useProvider(provider: LLMProvider, models: TaskModelSettings['models']) {
+  const { settings } = useSettingsStore.getState();
+  useSettingsStore.setState({
+    settings: {
+      ...settings,
+      provider,
+      local: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' },
+      tasks: { ...settings.tasks, profileGeneration: { ...settings.tasks.profileGeneration, models } },
+    },
+  });
+}
+
+function targetModel(): string {
+  return useSettingsStore.getState().getLLMTarget('profileGeneration').model;
+}
+
+describe('getLLMTarget', () => {
+  it('uses the task model chosen for the active provider', () => {
+    useProvider('local', { openai: 'gpt-5-mini', local: 'qwen2.5:14b' });
+    expect(targetModel()).toBe('qwen2.5:14b');
+  });
+
+  it('keeps a local model that shares its id with a hosted model', () => {
+    useProvider('local', { local: 'gpt-5-mini' });
+    expect(targetModel()).toBe('gpt-5-mini');
+  });
+
+  it('falls back to the local model when the task has none for local', () => {
+    useProvider('local', { openai: 'gpt-5-mini' });
+    expect(targetModel()).toBe('llama3.1');
+  });
+
+  it('keeps a hosted model id the catalog does not list', () => {
+    useProvider('openai', { openai: 'gpt-next-preview' });
+    expect(targetModel()).toBe('gpt-next-preview');
+  });
+
+  it('uses the provider default when the task has no model for it', () => {
+    useProvider('openai', { local: 'qwen2.5:14b' });
+    expect(targetModel()).toBe(useSettingsStore.getState().getProviderTarget('openai', '', 0.7).model);
+  });
+});
@@ -1,14 +1,35 @@
 import { create } from 'zustand';
-import type { AppSettings } from '@/types';
+import type { AppSettings, LLMProvider, LLMTarget, LLMTask, TaskModelSettings } from '@/types';
 import { storage } from '@/lib/storage';
+import {
+  DEFAULT_MOCK_SETTINGS,
+  DEFAULT_MODEL_PRICES,
+  DEFAULT_PROVIDER,
+  DEFAULT_TASK_SETTINGS,
+  PROVIDER_CONFIGS,
+  isLLMProvider,
+} from '@/services/types';
+import { DEFAULT_LOCAL_BASE_URL } from '@/services/local';
 
 const SETTINGS_FILE = 'settings.json';
 
 const defaultSettings: AppSettings = {
   theme: 'dark',
+  provider: DEFAULT_PROVIDER,
   apiKeys: {
     openai: '',
+    anthropic: '',
+    gemini: '',
+    local: '',
+    mock: '',
   },
+  local: {
+    baseUrl: DEFAULT_LOCAL_BASE_URL,
+    model: '',
+  },
+  mock: DEFAULT_MOCK_SETTINGS,
+  tasks: DEFAULT_TASK_SETTINGS,
+  prices: DEFAULT_MODEL_PRICES,
   ui: {
     skipDeleteConfirmations: {
       schemas: false,
@@ -22,11 +43,16 @@ interface SettingsState {
   loaded: boolean;
   loadSettings: () => Promise<void>;
   saveSettings: (settings: Partial<AppSettings>) => Promise<void>;
-  setApiKey: (key: string) => Promise<void>;
+  setApiKey: (provider: LLMProvider, key: string) => Promise<void>;
+  setProvider: (provider: LLMProvider) => Promise<void>;
+  setTaskSettings: (task: LLMTask, patch: Partial<TaskModelSettings>) => Promise<void>;
   setTheme: (theme: AppSettings['theme']) => void;
   setDeleteWarningSuppressed: (target: 'schemas' | 'profiles', suppressed: boolean) => Promise<void>;
   getApiKey: () => string;
   hasApiKey: () => boolean;
+  getLLMTarget: (task: LLMTask) => LLMTarget;
+  /** Target for an explicit provider and model, e.g. when replaying a logged call */
+  getProviderTarget: (provider: LLMProvider, model: string, temperature: number) => LLMTarget;
 }
 
 export const useSettingsStore = create<SettingsState>((set, get) => ({
@@ -40,7 +66,12 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       const merged = {
         ...defaultSettings,
         ...saved,
+        provider: isLLMProvider(saved.provider) ? saved.provider : defaultSettings.provider,
         apiKeys: { ...defaultSettings.apiKeys, ...saved.apiKeys },
+        local: { ...defaultSettings.local, ...saved.local },
+        mock: { ...defaultSettings.mock, ...saved.mock },
+        tasks: mergeTaskSettings(saved.tasks, isLLMProvider(saved.provider) ? saved.provider : defaultSettings.provider),
+        prices: { ...defaultSettings.prices, ...saved.prices },
         ui: {
           ...defaultSettings.ui,
           ...savedUi,
@@ -67,6 +98,14 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
         ...current.apiKeys,
         ...(partial.apiKeys ?? {}),
       },
+      local: {
+        ...current.local,
+        ...(partial.local ?? {}),
+      },
+      mock: {
+        ...current.mock,
+        ...(partial.mock ?? {}),
+      },
       ui: {
         ...current.ui,
         ...(partial.ui ?? {}),
@@ -80,11 +119,31 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     await storage.writeJson(SETTINGS_FILE, updated);
   },
 
-  setApiKey: async (key) => {
+  setApiKey: async (provider, key) => {
+    const current = get().settings;
+    const updated = {
+      ...current,
+      apiKeys: { ...current.apiKeys, [provider]: key },
+    };
+    set({ settings: updated });
+    await storage.writeJson(SETTINGS_FILE, updated);
+  },
+
+  setProvider: async (provider) => {
+    const current = get().settings;
+    const updated = { ...current, provider };
+    set({ settings: updated });
+    await storage.writeJson(SETTINGS_FILE, updated);
+  },
+
+  setTaskSettings: async (task, patch) => {
     const current = get().settings;
     const updated = {
       ...current,
-      apiKeys: { openai: key },
+      tasks: {
+        ...current.tasks,
+        [task]: { ...current.tasks[task], ...patch },
+      },
     };
     set({ settings: updated });
     await storage.writeJson(SETTINGS_FILE, updated);
@@ -114,14 +173,93 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     await storage.writeJson(SETTINGS_FILE, updated);
   },
 
-  getApiKey: () => get().settings.apiKeys.openai,
+  getApiKey: () => {
+    const { provider, apiKeys } = get().settings;
+    return apiKeys[provider] ?? '';
+  },
 
   hasApiKey: () => {
-    const key = get().settings.apiKeys.openai;
+    const { provider, local } = get().settings;
+    if (provider === 'mock') return true;
+    // Local servers usually run without auth; they only need an endpoint and model.
+    if (provider === 'local') return local.baseUrl.trim().length > 0 && local.model.trim().length > 0;
+    const key = get().getApiKey();
     return key !== undefined && key.trim().length > 0;
   },
+
+  getLLMTarget: (task) => {
+    const { provider, local, mock, tasks } = get().settings;
+    const taskSettings = tasks[task] ?? DEFAULT_TASK_SETTINGS[task];
+    const taskModel = (taskSettings.models[provider] ?? '').trim();
+    if (provider === 'local') {
+      return {
+        provider,
+        apiKey: get().getApiKey().trim(),
+        model: taskModel || local.model.trim(),
+        baseUrl: local.baseUrl.trim(),
+        temperature: taskSettings.temperature,
+      };
+    }
+    return {
+      provider,
+      apiKey: get().getApiKey(),
+      model: taskModel || PROVIDER_CONFIGS[provider].defaultModel,
+      temperature: taskSettings.temperature,
+      ...(provider === 'mock' ? { mock } : {}),
+    };
+  },
+
+  getProviderTarget: (provider, model, temperature) => {
+    const { apiKeys, local, mock } = get().settings;
+    if (provider === 'local') {
+      return {
+        provider,
+        apiKey: apiKeys.local.trim(),
+        model: model.trim() || local.model.trim(),
+        baseUrl: local.baseUrl.trim(),
+        temperature,
+      };
+    }
+    return {
+      provider,
+      apiKey: apiKeys[provider] ?? '',
+      model: model.trim() || PROVIDER_CONFIGS[provider].defaultModel,
+      temperature,
+      ...(provider === 'mock' ? { mock } : {}),
+    };
+  },
 }));
 
+type SavedTaskSettings = Partial<TaskModelSettings> & {
+  /** Single model id from before task models were kept per provider */
+  model?: unknown;
+};
+
+/**
+ * Fills in missing tasks and drops malformed model entries. A legacy single
+ * `model` is kept for the provider that was selected when it was saved.
+ */
+function mergeTaskSettings(
+  saved: Partial<Record<LLMTask, SavedTaskSettings>> | undefined,
+  savedProvider: LLMProvider
+): Record<LLMTask, TaskModelSettings> {
+  const merged = { ...DEFAULT_TASK_SETTINGS };
+  for (const task of Object.keys(DEFAULT_TASK_SETTINGS) as LLMTask[]) {
+    const entry = saved?.[task];
+    if (!entry) continue;
+    const models: TaskModelSettings['models'] = {};
+    if (typeof entry.model === 'string' && entry.model) models[savedProvider] = entry.model;
+    for (const [provider, model] of Object.entries(entry.models ?? {})) {
+      if (isLLMProvider(provider) && typeof model === 'string') models[provider] = model;
+    }
+    merged[task] = {
+      models,
+      temperature: typeof entry.temperature === 'number' ? entry.temperature : DEFAULT_TASK_SETTINGS[task].temperature,
+    };
+  }
+  return merged;
+}
+
 function applyTheme(theme: AppSettings['theme']) {
   const root = document.documentElement;
   if (theme === 'system') {
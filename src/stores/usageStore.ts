@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import type { LLMProvider, ModelUsage, TokenUsage } from '@/types';
+
+interface UsageState {
+  /** Usage since the app started, one entry per provider and model */
+  session: ModelUsage[];
+  calls: number;
+  record: (provider: LLMProvider, model: string, usage: TokenUsage) => void;
+  reset: () => void;
+}
+
+export const useUsageStore = create<UsageState>((set) => ({
+  session: [],
+  calls: 0,
+
+  record: (provider, model, usage) =>
+    set((state) => {
+      const index = state.session.findIndex((entry) => entry.provider === provider && entry.model === model);
+      const session = [...state.session];
+      if (index < 0) {
+        session.push({ provider, model, ...usage });
+      } else {
+        session[index] = {
+          ...session[index],
+          inputTokens: session[index].inputTokens + usage.inputTokens,
+          outputTokens: session[index].outputTokens + usage.outputTokens,
+        };
+      }
+      return { session, calls: state.calls + 1 };
+    }),
+
+  reset: () => set({ session: [], calls: 0 }),
+}));
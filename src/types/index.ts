@@ -62,8 +62,35 @@ export interface SchemaPreset {
   specificity?: 'low' | 'medium' | 'high';
   /** Multi-pass generation order: groups of field keys, each group is one LLM call */
   generationOrder?: string[][];
+  /** Hard rules between fields, given to the generator and checked on every confidence report */
+  constraints?: SchemaConstraint[];
 }
 
+/** Text comparisons ignore case; `includes` matches a list item, or a substring of text */
+export type ConstraintOperator = 'equals' | 'notEquals' | 'includes' | 'excludes';
+
+export interface ConstraintCondition {
+  path: string;
+  operator: ConstraintOperator;
+  value: string;
+}
+
+export type SchemaConstraint =
+  | {
+    id: string;
+    /** Profiles matching `when` must also match `then` */
+    kind: 'implies';
+    when: ConstraintCondition;
+    then: ConstraintCondition;
+  }
+  | {
+    id: string;
+    /** Third-person pronouns in `textPath` must match the pronouns in `pronounsPath` (e.g. "she/her") */
+    kind: 'pronounAgreement';
+    pronounsPath: string;
+    textPath: string;
+  };
+
 // ============================================================
 // Profile
 // ============================================================
@@ -81,15 +108,62 @@ export interface GeneratedProfile {
   profile: Record<string, unknown>;
   revisions?: ProfileRevision[];
   activeRevisionId?: string;
+  /** Set when a multi-pass run stopped early; `profile` holds the completed passes only */
+  draft?: ProfileDraftState;
+}
+
+export interface ProfileDraftState {
+  completedPasses: number;
+  totalPasses: number;
+  stoppedAt: string;
+  /** Zero-based indexes of the finished passes; older drafts imply the first `completedPasses` */
+  completedPassIndexes?: number[];
+  /** Set when a pass failed, rather than the run being stopped */
+  error?: string;
+  /** Brief the run started with, reused when resuming */
+  brief?: string;
 }
 
-export type ProfileRevisionKind = 'generate' | 'refine' | 'edit' | 'revert' | 'fork';
+export type ProfileRevisionKind = 'generate' | 'refine' | 'edit' | 'revert' | 'fork' | 'replay' | 'resume';
 
 export interface ConfidenceReport {
   schemaValid: boolean;
   fieldsComplete: boolean;
   passes: number;
   warnings: string[];
+  /** Paths that still fail JSON schema validation */
+  invalidPaths?: string[];
+  /** Outcome of the automatic repair call, when one ran */
+  repair?: RepairReport;
+  /** Set when a consistency review ran; empty when it found nothing */
+  consistencyIssues?: ConsistencyIssue[];
+  /** Set when the schema declares constraints; empty when the profile satisfies them all */
+  constraintViolations?: ConstraintViolation[];
+}
+
+/** A schema constraint the profile breaks */
+export interface ConstraintViolation {
+  constraintId: string;
+  /** Fields to change to satisfy the rule; the one-click fix regenerates these */
+  paths: string[];
+  message: string;
+}
+
+/** A contradiction the consistency review found between fields */
+export interface ConsistencyIssue {
+  /** Field paths involved; the one-click fix regenerates these */
+  paths: string[];
+  explanation: string;
+  suggestedFix: string;
+}
+
+export interface RepairReport {
+  /** Paths sent to the repair call */
+  attempted: string[];
+  /** Attempted paths that validate after repair */
+  repaired: string[];
+  /** Set when the repair call itself failed */
+  error?: string;
 }
 
 export interface ProfileRevision {
@@ -102,13 +176,17 @@ export interface ProfileRevision {
   snapshot: Record<string, unknown>;
   parentRevisionId?: string;
   confidence?: ConfidenceReport;
+  /** Tokens spent producing this revision */
+  usage?: ModelUsage;
+  /** Best-of-N generations: the zero-based candidate each field was taken from, by field path */
+  candidatePicks?: Record<string, number>;
 }
 
 // ============================================================
 // LLM Provider
 // ============================================================
 
-export type LLMProvider = 'openai';
+export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'local' | 'mock';
 
 export interface ProviderConfig {
   id: LLMProvider;
@@ -121,6 +199,92 @@ export interface ModelOption {
   id: string;
   name: string;
   supportsJsonMode: boolean;
+  /** Accepts a strict JSON Schema for its output (json_schema, forced tool call or responseJsonSchema) */
+  supportsStructuredOutput: boolean;
+}
+
+/** Task categories that can each run on their own model and temperature */
+export type LLMTask =
+  | 'profileGeneration'
+  | 'profileRefinement'
+  | 'chatReply'
+  | 'sceneGeneration'
+  | 'schemaDrafting'
+  | 'transformSuggestions';
+
+export interface TaskModelSettings {
+  /** Model id per provider; a missing or empty entry uses that provider's default */
+  models: Partial<Record<LLMProvider, string>>;
+  temperature: number;
+}
+
+/** Token counts reported by a provider for one or more calls */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Token usage attributed to the model that spent it, so cost can be priced later */
+export interface ModelUsage extends TokenUsage {
+  provider: LLMProvider;
+  model: string;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Resolved provider, credentials, model and temperature used for a single LLM call */
+export interface LLMTarget {
+  provider: LLMProvider;
+  apiKey: string;
+  model: string;
+  temperature: number;
+  /** Endpoint root for OpenAI-compatible local servers */
+  baseUrl?: string;
+  /** Seed and fault injection for the offline mock provider */
+  mock?: MockProviderSettings;
+}
+
+/** Offline mock provider behaviour; identical seeds and prompts give identical output */
+export interface MockProviderSettings {
+  seed: number;
+  /** Wait before the first token */
+  latencyMs: number;
+  /** Wait between streamed tokens */
+  tokenDelayMs: number;
+  /** Chance (0-1) each attempt fails with a retryable HTTP 503 */
+  errorRate: number;
+  /** Chance (0-1) the output is cut short into invalid JSON */
+  malformedRate: number;
+}
+
+export type LLMCallStatus = 'complete' | 'error' | 'cancelled';
+
+/** One logged LLM call, kept for the call inspector */
+export interface LLMCallRecord {
+  id: string;
+  label: string;
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+  systemPrompt: string;
+  userPrompt: string;
+  /** Structured output schema the call requested, kept so replays can send it again */
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  /** Full output, or whatever streamed before an error or cancel */
+  output: string;
+  startedAt: string;
+  durationMs: number;
+  status: LLMCallStatus;
+  usage?: TokenUsage;
+  error?: string;
+  /** Profile the call worked on, when it had one */
+  profileId?: string;
+  /** Schema the call generated against, when it had one */
+  schemaId?: string;
 }
 
 export interface GenerationRequest {
@@ -133,7 +297,23 @@ export interface GenerationResult {
   raw: string;
   provider: LLMProvider;
   model: string;
-  tokensUsed?: number;
+  /** Summed over every call in the run, including passes and repairs */
+  tokensUsed?: TokenUsage;
+  repair?: RepairReport;
+}
+
+/** Replacement values proposed for one field, each valid for its type */
+export interface FieldAlternatives {
+  path: string;
+  values: unknown[];
+  provider: LLMProvider;
+  model: string;
+  tokensUsed?: TokenUsage;
+}
+
+export interface ConsistencyReview {
+  issues: ConsistencyIssue[];
+  tokensUsed?: TokenUsage;
 }
 
 /** Callbacks for a single pass within multi-pass generation */
@@ -143,13 +323,71 @@ export interface StreamCallbacks {
   onError: (error: string) => void;
 }
 
+/** Where a multi-pass run stands; passes that do not depend on each other run at the same time */
+export interface PassProgress {
+  totalPasses: number;
+  /** Zero-based indexes of passes in flight */
+  running: number[];
+  /** Zero-based indexes of passes finished, in completion order */
+  completed: number[];
+}
+
+/** Output of the passes that finished before a run stopped or failed */
+export interface PartialGeneration {
+  profile: Record<string, unknown>;
+  /** Zero-based indexes of finished passes */
+  completedPasses: number[];
+  totalPasses: number;
+}
+
 /** Callbacks for multi-pass generation with stage awareness */
 export interface MultiPassCallbacks {
+  /** Called as each pass starts; with overlapping passes, several may be running */
   onPassStart: (passIndex: number, passTotal: number, fieldKeys: string[]) => void;
-  onToken: (token: string) => void;
+  /** `passIndex` tells overlapping passes' streams apart; repair calls report under their pass */
+  onToken: (token: string, passIndex: number) => void;
   onPassComplete: (passIndex: number, partialProfile: Record<string, unknown>) => void;
+  /** Called whenever a pass starts or finishes */
+  onProgress?: (progress: PassProgress) => void;
   onComplete: (result: GenerationResult) => void;
-  onError: (error: string) => void;
+  /** `partial` is set when a multi-pass run fails after at least one pass finished */
+  onError: (error: string, partial?: PartialGeneration) => void;
+  /** Called instead of onError when the run is aborted; receives the passes completed so far */
+  onCancel?: (partial: PartialGeneration) => void;
+}
+
+/** Values a batch cast already uses, fed to later items so they diverge */
+export interface CastContext {
+  /** Identity values taken by earlier profiles, keyed by field path */
+  avoid: Record<string, string[]>;
+  /** How often each scale and enum value has been picked so far, keyed by field path */
+  distribution: Record<string, Record<string, number>>;
+}
+
+/** Everything a generation run must honour besides the brief */
+export interface GenerationConstraints {
+  /** Field values fixed by the user, keyed by field path */
+  seeds: Record<string, unknown>;
+  cast?: CastContext;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'complete' | 'error' | 'cancelled';
+
+/** One profile in a batch run */
+export interface BatchItem {
+  index: number;
+  brief: string;
+  /** Row seeds from a CSV import, layered over the batch's seeds */
+  seeds?: Record<string, unknown>;
+  status: BatchItemStatus;
+  /** Passes finished so far */
+  pass: number;
+  totalPasses: number;
+  /** Zero-based indexes of passes in flight; independent passes can overlap */
+  runningPasses?: number[];
+  /** Saved profile, once complete or kept as a draft */
+  profileId?: string;
+  error?: string;
 }
 
 // ============================================================
@@ -158,9 +396,20 @@ export interface MultiPassCallbacks {
 
 export interface AppSettings {
   theme: 'light' | 'dark' | 'system';
-  apiKeys: {
-    openai: string;
+  /** Provider every profile, schema and chat call is routed through */
+  provider: LLMProvider;
+  /** Keys per provider; optional for the local endpoint and unused by the mock */
+  apiKeys: Record<LLMProvider, string>;
+  /** OpenAI-compatible local server (Ollama, llama.cpp, LM Studio) */
+  local: {
+    baseUrl: string;
+    model: string;
   };
+  mock: MockProviderSettings;
+  /** Model and temperature per task category */
+  tasks: Record<LLMTask, TaskModelSettings>;
+  /** Price table keyed by model id, used for cost estimates */
+  prices: Record<string, ModelPrice>;
   ui: {
     skipDeleteConfirmations: {
       schemas: boolean;
@@ -173,7 +422,7 @@ export interface AppSettings {
 // UI State
 // ============================================================
 
-export type AppView = 'generate' | 'chat' | 'schemas' | 'history' | 'settings';
+export type AppView = 'generate' | 'chat' | 'schemas' | 'history' | 'calls' | 'settings';
 
 export interface Toast {
   id: string;